@@ -2,10 +2,23 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { LoadingScreen } from './components/LoadingScreen';
 import { Sidebar, type PerformanceSettings } from './components/Sidebar';
 import { AsteroidDetail } from './components/AsteroidDetail';
+import { ImportDialog, type ImportOptions } from './components/ImportDialog';
 import { ControlsHelp } from './components/ControlsHelp';
 import { HUD } from './components/HUD';
-import { loadAsteroidData, type LoadProgress } from './lib/dataLoader';
-import { getAllAsteroids, getStatistics, type Asteroid } from './lib/indexedDB';
+import {
+  loadAsteroidData,
+  updateAsteroidData,
+  checkForDatasetUpdate,
+  importCatalogFile,
+  revalueAsteroids,
+  formatChangeSummary,
+  type LoadProgress,
+} from './lib/dataLoader';
+import { getStatistics, getAllComets, getUserCatalogAsteroids, type Asteroid, type Comet, type UserCatalog } from './lib/indexedDB';
+import { type CatalogStatistics, emptyStatistics } from './lib/catalogStats';
+import { getAsteroidColumns, columnsFromAsteroids } from './lib/columnarCache';
+import { type PriceTable } from './lib/valuation';
+import { estimateValue } from './lib/enrichment';
 import { SceneController } from './three/SceneController';
 
 function App() {
@@ -24,20 +37,22 @@ function App() {
   const isLoadingStarted = useRef(false);
 
   // Data state
-  const [statistics, setStatistics] = useState({
-    totalCount: 0,
-    totalValue: 0,
-    neoCount: 0,
-    phaCount: 0,
-  });
+  const [statistics, setStatistics] = useState<CatalogStatistics>(emptyStatistics);
   const [navigationItems, setNavigationItems] = useState<Array<{ name: string; type: string }>>([]);
 
   // UI state
   const [selectedAsteroid, setSelectedAsteroid] = useState<Asteroid | null>(null);
   const [isControlsLocked, setIsControlsLocked] = useState(false);
-  const [timeScale, setTimeScale] = useState(86400); // Default: 1 real second = 1 simulated day (86400 seconds)
   const [isTracking, setIsTracking] = useState(false);
   const [trackingTarget, setTrackingTarget] = useState<string | null>(null);
+  const [catalogUpdate, setCatalogUpdate] = useState<{ running: boolean; message: string } | null>(null);
+  const [datasetUpdateAvailable, setDatasetUpdateAvailable] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [catalogImport, setCatalogImport] = useState<{ running: boolean; message: string; failed?: boolean } | null>(null);
+  // Imported catalog shown in the list and the belt instead of the main one
+  const [activeCatalog, setActiveCatalog] = useState<UserCatalog | null>(null);
+  const catalogRequestRef = useRef(0);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
   const [asteroidLoadProgress, setAsteroidLoadProgress] = useState<{ loaded: number; total: number } | null>(null);
   const [performanceSettings, setPerformanceSettings] = useState({
     showAsteroids: true,
@@ -64,6 +79,9 @@ function App() {
         
         // Show scene immediately - asteroids will load progressively
         setIsLoading(false);
+
+        // The cached catalog is used as is; a newer server copy is only offered
+        checkForDatasetUpdate().then(setDatasetUpdateAvailable);
       } catch (error) {
         console.error('Failed to load asteroid data:', error);
         setLoadProgress({
@@ -79,6 +97,40 @@ function App() {
     loadData();
   }, []);
 
+  // Accept a CSV/TSV dropped anywhere, on the loading screen as well as the scene
+  useEffect(() => {
+    const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes('Files') === true;
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      setIsDraggingFile(true);
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      // relatedTarget is null once the pointer leaves the window
+      if (event.relatedTarget === null) setIsDraggingFile(false);
+    };
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      setIsDraggingFile(false);
+      const file = event.dataTransfer?.files[0];
+      if (file) {
+        setCatalogImport(null);
+        setImportFile(file);
+      }
+    };
+
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
   // Initialize Three.js scene
   useEffect(() => {
     if (isLoading || !containerRef.current) return;
@@ -115,9 +167,10 @@ function App() {
     controller.setPostProcessingEnabled(true);
     
     // Load asteroids progressively (after scene is visible)
-    getAllAsteroids().then(allAsteroids => {
-      controller.loadAsteroids(allAsteroids);
+    getAsteroidColumns().then(columns => {
+      if (columns) controller.loadAsteroids(columns);
     });
+    getAllComets().then(comets => controller.loadComets(comets));
     
     return () => {
       controller.dispose();
@@ -134,18 +187,108 @@ function App() {
     setSelectedAsteroid(asteroid);
   }, []);
 
+  const handleCometSelect = useCallback((comet: Comet) => {
+    sceneRef.current?.flyToComet(comet);
+  }, []);
+
   const handleFlyToAsteroid = useCallback((asteroid: Asteroid) => {
     sceneRef.current?.flyToAsteroid(asteroid);
     setSelectedAsteroid(null);
   }, []);
 
+  // Swap the belt to an imported catalog, or back to the main one with null
+  const handleCatalogChange = useCallback(async (catalog: UserCatalog | null) => {
+    const request = ++catalogRequestRef.current;
+    setActiveCatalog(catalog);
+    setSelectedAsteroid(null);
+    try {
+      const columns = catalog
+        ? columnsFromAsteroids(await getUserCatalogAsteroids(catalog.id), catalog.id)
+        : await getAsteroidColumns();
+      // A later switch wins over a slower earlier one
+      if (columns && request === catalogRequestRef.current) sceneRef.current?.loadAsteroids(columns);
+    } catch (error) {
+      console.error('Failed to load catalog:', error);
+    }
+  }, []);
+
   const handleCloseDetail = useCallback(() => {
     setSelectedAsteroid(null);
   }, []);
 
-  const handleTimeScaleChange = useCallback((scale: number) => {
-    setTimeScale(scale);
-    sceneRef.current?.setTimeScale(scale);
+  // Diff the current dataset against the stored catalog and apply the changes
+  const handleCheckForUpdate = useCallback(async () => {
+    setCatalogUpdate({ running: true, message: 'Checking for catalog updates...' });
+    try {
+      const changes = await updateAsteroidData((progress) => {
+        setCatalogUpdate({ running: true, message: progress.message });
+      });
+      setStatistics(await getStatistics());
+      setCatalogUpdate({ running: false, message: formatChangeSummary(changes) });
+      setDatasetUpdateAvailable(false);
+      
+      // Rebuild the 3D belt when anything actually changed, back on the main catalog
+      const controller = sceneRef.current;
+      if (controller && changes.added + changes.updated + changes.removed > 0) {
+        catalogRequestRef.current++;
+        setActiveCatalog(null);
+        getAsteroidColumns().then(columns => {
+          if (columns) controller.loadAsteroids(columns);
+        });
+        getAllComets().then(comets => controller.loadComets(comets));
+      }
+    } catch (error) {
+      console.error('Catalog update failed:', error);
+      setCatalogUpdate({
+        running: false,
+        message: `Update failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }, []);
+
+  // Re-price the catalog; the list, rankings and totals reload when the job finishes
+  const handlePricesChange = useCallback(async (prices: PriceTable) => {
+    setCatalogUpdate({ running: true, message: 'Revaluing asteroids...' });
+    try {
+      const count = await revalueAsteroids(prices, (progress) => {
+        setCatalogUpdate({ running: true, message: progress.message });
+      });
+      setStatistics(await getStatistics());
+      setSelectedAsteroid(current => current && { ...current, estimatedValue: estimateValue(current, prices) });
+      setCatalogUpdate({ running: false, message: `Revalued ${count.toLocaleString()} asteroids` });
+    } catch (error) {
+      console.error('Revaluation failed:', error);
+      setCatalogUpdate({
+        running: false,
+        message: `Revaluation failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }, []);
+
+  // Import the dropped file into its own named catalog
+  const handleImport = useCallback(async (options: ImportOptions) => {
+    if (!importFile) return;
+    setCatalogImport({ running: true, message: `Importing ${importFile.name}...` });
+    try {
+      const count = await importCatalogFile(importFile, options, (progress) => {
+        setCatalogImport({ running: true, message: progress.message });
+      });
+      setCatalogImport({
+        running: false,
+        message: `Imported ${count.toLocaleString()} asteroids into "${options.catalogName}"; show it from Stats → Imported Catalogs`,
+      });
+    } catch (error) {
+      console.error('Catalog import failed:', error);
+      setCatalogImport({
+        running: false,
+        failed: true,
+        message: `Import failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }, [importFile]);
+
+  const handleCloseImport = useCallback(() => {
+    setImportFile(null);
   }, []);
 
   const handleExitFocus = useCallback(() => {
@@ -171,17 +314,36 @@ function App() {
     return sceneRef.current?.getCurrentSpeed() ?? 0;
   }, []);
 
-  const getSimulatedTime = useCallback(() => {
-    return sceneRef.current?.getSimulatedTime() ?? 0;
-  }, []);
-
   const getVisibleAsteroids = useCallback(() => {
     return sceneRef.current?.getVisibleAsteroids() ?? 0;
   }, []);
 
+  const importOverlay = (
+    <>
+      {isDraggingFile && (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center bg-cyan-950/60 border-4 border-dashed border-cyan-400 pointer-events-none">
+          <p className="text-2xl font-bold text-cyan-300">Drop a CSV or TSV file to import it as a new catalog</p>
+        </div>
+      )}
+      {importFile && (
+        <ImportDialog
+          file={importFile}
+          status={catalogImport}
+          onImport={handleImport}
+          onClose={handleCloseImport}
+        />
+      )}
+    </>
+  );
+
   // Render loading screen
   if (isLoading) {
-    return <LoadingScreen progress={loadProgress} />;
+    return (
+      <>
+        <LoadingScreen progress={loadProgress} />
+        {importOverlay}
+      </>
+    );
   }
 
   return (
@@ -194,11 +356,18 @@ function App() {
         navigationItems={navigationItems}
         onNavigate={handleNavigate}
         onAsteroidSelect={handleAsteroidSelect}
+        onFlyToAsteroid={handleFlyToAsteroid}
+        onCometSelect={handleCometSelect}
         statistics={statistics}
-        timeScale={timeScale}
-        onTimeScaleChange={handleTimeScaleChange}
         performanceSettings={performanceSettings}
         onPerformanceSettingsChange={handlePerformanceSettingsChange}
+        catalogUpdate={catalogUpdate}
+        onCheckForUpdate={handleCheckForUpdate}
+        datasetUpdateAvailable={datasetUpdateAvailable}
+        onPricesChange={handlePricesChange}
+        catalogImport={catalogImport}
+        activeCatalog={activeCatalog}
+        onCatalogChange={handleCatalogChange}
       />
 
       {/* Asteroid detail panel */}
@@ -217,8 +386,6 @@ function App() {
       {/* HUD - Speed, time, date */}
       <HUD 
         getCurrentSpeed={getCurrentSpeed}
-        getSimulatedTime={getSimulatedTime}
-        timeScale={timeScale}
         getVisibleAsteroids={getVisibleAsteroids}
       />
 
@@ -264,6 +431,8 @@ function App() {
           </div>
         </div>
       )}
+
+      {importOverlay}
     </div>
   );
 }
@@ -1,6 +1,12 @@
-import { X, MapPin, Gem, Activity, AlertTriangle, CircleDot, Crosshair, Scale, Timer } from 'lucide-react';
-import { type Asteroid } from '../lib/indexedDB';
-import { formatValue } from '../lib/dataLoader';
+import { useEffect, useMemo, useState } from 'react';
+import { X, MapPin, Gem, Activity, AlertTriangle, CircleDot, Crosshair, Scale, Timer, ShieldAlert, Orbit } from 'lucide-react';
+import { type Asteroid, getPriceTable } from '../lib/indexedDB';
+import { formatValue, formatMass } from '../lib/dataLoader';
+import { DIFFICULTY_THRESHOLDS, rendezvousDeltaV } from '../lib/deltaV';
+import { tisserandJupiter } from '../lib/enrichment';
+import { estimateDiameter, formatDiameter } from '../lib/diameter';
+import { type PriceTable, COMMODITIES, COMPOSITION_PROFILES, DEFAULT_PRICES, valueAsteroid } from '../lib/valuation';
+import { getQualityRule } from '../lib/validation';
 
 interface AsteroidDetailProps {
   asteroid: Asteroid;
@@ -8,7 +14,23 @@ interface AsteroidDetailProps {
   onFlyTo: (asteroid: Asteroid) => void;
 }
 
+const TAXONOMY_SOURCE_LABELS = {
+  spectral: 'from spectral type',
+  albedo: 'inferred from albedo',
+  default: 'assumed, no albedo',
+};
+
 export function AsteroidDetail({ asteroid, onClose, onFlyTo }: AsteroidDetailProps) {
+  const [prices, setPrices] = useState<PriceTable>(DEFAULT_PRICES);
+
+  // Same prices the stored estimatedValue was computed with
+  useEffect(() => {
+    getPriceTable().then(setPrices).catch(console.error);
+  }, [asteroid]);
+
+  const valuation = useMemo(() => valueAsteroid(asteroid, prices), [asteroid, prices]);
+  const profile = COMPOSITION_PROFILES[valuation.taxonomy];
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'Easy': return 'bg-green-500';
@@ -20,17 +42,17 @@ export function AsteroidDetail({ asteroid, onClose, onFlyTo }: AsteroidDetailPro
     }
   };
 
-  const getDifficultyWidth = (difficulty: string) => {
-    switch (difficulty) {
-      case 'Easy': return '20%';
-      case 'Moderate': return '40%';
-      case 'Difficult': return '60%';
-      case 'Very Difficult': return '80%';
-      case 'Extreme': return '100%';
-      default: return '50%';
-    }
+  // Bar fills up at the top of the 'Very Difficult' band
+  const getDifficultyWidth = (deltaV: number) => {
+    const scale = DIFFICULTY_THRESHOLDS[DIFFICULTY_THRESHOLDS.length - 1].maxDeltaV;
+    return `${Math.min(100, Math.max(5, (deltaV / scale) * 100))}%`;
   };
 
+  // User catalogs imported before these were stored lack the fields
+  const deltaV = asteroid.deltaV ?? rendezvousDeltaV(asteroid);
+  const tisserand = asteroid.tisserandJ ?? tisserandJupiter(asteroid);
+  const size = asteroid.diameterSource ? asteroid : estimateDiameter(asteroid);
+
   return (
     <div className="fixed bottom-4 right-4 w-96 bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-xl shadow-2xl z-50 overflow-hidden animate-slide-up">
       {/* Header */}
@@ -56,15 +78,15 @@ export function AsteroidDetail({ asteroid, onClose, onFlyTo }: AsteroidDetailPro
 
         {/* Tags */}
         <div className="flex items-center gap-2 mt-3">
-          <span className="px-2 py-1 text-xs bg-gray-700 rounded-full">
+          <span className="px-2 py-1 text-xs bg-gray-700 rounded-full" title={`Orbit class ${asteroid.class}`}>
             {asteroid.category}
           </span>
-          {asteroid.neo && (
+          {asteroid.neo === 1 && (
             <span className="px-2 py-1 text-xs bg-blue-600/30 text-blue-400 rounded-full flex items-center gap-1">
               <CircleDot className="w-3 h-3" /> NEO
             </span>
           )}
-          {asteroid.pha && (
+          {asteroid.pha === 1 && (
             <span className="px-2 py-1 text-xs bg-red-600/30 text-red-400 rounded-full flex items-center gap-1">
               <AlertTriangle className="w-3 h-3" /> PHA
             </span>
@@ -74,6 +96,18 @@ export function AsteroidDetail({ asteroid, onClose, onFlyTo }: AsteroidDetailPro
 
       {/* Content */}
       <div className="p-4 space-y-4">
+        {/* Data quality warnings */}
+        {asteroid.qualityFlags?.length > 0 && (
+          <div className="p-3 bg-yellow-900/20 rounded-lg border border-yellow-700/40 space-y-1">
+            {asteroid.qualityFlags.map((flag) => (
+              <p key={flag} className="text-xs text-yellow-300 flex items-start gap-1" title={getQualityRule(flag)?.description}>
+                <ShieldAlert className="w-3 h-3 mt-0.5 shrink-0" />
+                {getQualityRule(flag)?.label ?? flag}
+              </p>
+            ))}
+          </div>
+        )}
+
         {/* Estimated Value */}
         <div className="p-4 bg-linear-to-br from-green-900/30 to-emerald-900/30 rounded-lg border border-green-700/30">
           <div className="flex items-center justify-between">
@@ -82,6 +116,28 @@ export function AsteroidDetail({ asteroid, onClose, onFlyTo }: AsteroidDetailPro
               {formatValue(asteroid.estimatedValue)}
             </span>
           </div>
+          {valuation.diameterSource === 'estimated' && valuation.totalMax > valuation.totalMin && (
+            <p className="text-right text-xs text-green-600 font-mono">
+              {formatValue(valuation.totalMin)} – {formatValue(valuation.totalMax)}
+            </p>
+          )}
+          <p className="mt-2 text-xs text-gray-400">
+            {valuation.taxonomy}-type ({profile.label.toLowerCase()}, {TAXONOMY_SOURCE_LABELS[valuation.taxonomySource]})
+            {valuation.massKg > 0 && <> · {formatMass(valuation.massKg)} at {(profile.density / 1000).toFixed(2)} g/cm³</>}
+            {valuation.diameterSource === 'estimated' && <> · size estimated from H</>}
+          </p>
+          {valuation.total > 0 && (
+            <div className="mt-2 space-y-1">
+              {COMMODITIES.filter(({ id }) => valuation.commodities[id].value > 0).map(({ id, label }) => (
+                <div key={id} className="flex items-center justify-between text-xs">
+                  <span className="text-gray-400">{label}</span>
+                  <span className="font-mono text-gray-300">
+                    {formatMass(valuation.commodities[id].massKg)} · {formatValue(valuation.commodities[id].value)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Mining Difficulty */}
@@ -91,25 +147,31 @@ export function AsteroidDetail({ asteroid, onClose, onFlyTo }: AsteroidDetailPro
               <Activity className="w-4 h-4" /> Mining Difficulty
             </span>
             <span className={`text-sm font-medium ${getDifficultyColor(asteroid.miningDifficulty).replace('bg-', 'text-')}`}>
+              {Number.isFinite(deltaV) && <span className="font-mono">{deltaV.toFixed(2)} km/s · </span>}
               {asteroid.miningDifficulty}
             </span>
           </div>
           <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
             <div 
               className={`h-full ${getDifficultyColor(asteroid.miningDifficulty)} transition-all duration-500`}
-              style={{ width: getDifficultyWidth(asteroid.miningDifficulty) }}
+              style={{ width: getDifficultyWidth(deltaV) }}
             />
           </div>
+          <p className="text-xs text-gray-500">
+            Rendezvous delta-v from low Earth orbit (Hohmann transfer plus plane change).
+            {' '}{DIFFICULTY_THRESHOLDS.map(({ label, maxDeltaV }) => `${label} ≤ ${maxDeltaV}`).join(', ')} km/s.
+          </p>
         </div>
 
         {/* Physical Properties */}
         <div className="grid grid-cols-2 gap-3">
-          {asteroid.diameter > 0 && (
+          {size.diameter > 0 && (
             <div className="p-3 bg-gray-800/50 rounded-lg">
               <div className="flex items-center gap-2 text-gray-400 text-xs mb-1">
                 <Scale className="w-3 h-3" /> Diameter
+                {size.diameterSource === 'estimated' && <span className="text-gray-500">(from H)</span>}
               </div>
-              <p className="font-semibold">{asteroid.diameter.toFixed(2)} km</p>
+              <p className="font-semibold">{formatDiameter(size)}</p>
             </div>
           )}
           
@@ -131,6 +193,20 @@ export function AsteroidDetail({ asteroid, onClose, onFlyTo }: AsteroidDetailPro
             </div>
           )}
 
+          {Number.isFinite(tisserand) && (
+            <div className="p-3 bg-gray-800/50 rounded-lg" title="Tisserand parameter relative to Jupiter">
+              <div className="flex items-center gap-2 text-gray-400 text-xs mb-1">
+                <Orbit className="w-3 h-3" /> T<sub>J</sub>
+              </div>
+              <p className="font-semibold">
+                {tisserand.toFixed(3)}
+                <span className="ml-1 text-xs font-normal text-gray-400">
+                  {tisserand > 3 ? 'asteroidal' : tisserand > 2 ? 'JFC-like' : 'HTC/LPC-like'}
+                </span>
+              </p>
+            </div>
+          )}
+
           {asteroid.per_y > 0 && (
             <div className="p-3 bg-gray-800/50 rounded-lg">
               <div className="flex items-center gap-2 text-gray-400 text-xs mb-1">
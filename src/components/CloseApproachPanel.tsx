@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'react';
+import { Search, Loader2, AlertTriangle, ArrowUpDown } from 'lucide-react';
+import { type Asteroid, getAsteroidById } from '../lib/indexedDB';
+import { type CloseApproach, LUNAR_DISTANCE_AU } from '../lib/closeApproach';
+import { searchCloseApproaches } from '../lib/dataLoader';
+import { SECONDS_PER_YEAR, dateToTDB, tdbToDate, setClockJD, setClockRate } from '../lib/simClock';
+
+interface CloseApproachPanelProps {
+  onFlyToAsteroid: (asteroid: Asteroid) => void;
+}
+
+type ApproachSortField = 'jd' | 'distance' | 'velocity' | 'name';
+
+const DEFAULT_YEARS = 10;
+const DEFAULT_MAX_DISTANCE = 0.05; // AU, the usual potentially-hazardous threshold
+
+// UTC calendar date for a date input
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatApproachDate(jd: number): string {
+  return tdbToDate(jd).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+export function CloseApproachPanel({ onFlyToAsteroid }: CloseApproachPanelProps) {
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date()));
+  const [toDate, setToDate] = useState(() =>
+    toDateInput(new Date(Date.now() + DEFAULT_YEARS * SECONDS_PER_YEAR * 1000))
+  );
+  const [maxDistance, setMaxDistance] = useState(String(DEFAULT_MAX_DISTANCE));
+  const [approaches, setApproaches] = useState<CloseApproach[] | null>(null);
+  const [progress, setProgress] = useState<{ current: number; total: number } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sortField, setSortField] = useState<ApproachSortField>('jd');
+  const [sortAscending, setSortAscending] = useState(true);
+
+  const startJD = dateToTDB(new Date(fromDate));
+  const endJD = dateToTDB(new Date(toDate));
+  const distance = parseFloat(maxDistance);
+  const validInput = Number.isFinite(startJD) && Number.isFinite(endJD) && endJD > startJD && distance > 0;
+
+  const handleSearch = async () => {
+    if (!validInput) return;
+    setRunning(true);
+    setError(null);
+    setProgress(null);
+    try {
+      setApproaches(await searchCloseApproaches(
+        { startJD, endJD, maxDistance: distance },
+        (current, total) => setProgress({ current, total })
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSort = (field: ApproachSortField) => {
+    if (field === sortField) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortField(field);
+      setSortAscending(true);
+    }
+  };
+
+  // Pause at the moment of closest approach and fly to the asteroid there
+  const handleSelect = async (approach: CloseApproach) => {
+    setClockJD(approach.jd);
+    setClockRate(0);
+    const asteroid = await getAsteroidById(approach.id);
+    if (asteroid) onFlyToAsteroid(asteroid);
+  };
+
+  const sortedApproaches = useMemo(() => {
+    if (!approaches) return [];
+    const direction = sortAscending ? 1 : -1;
+    return [...approaches].sort((a, b) =>
+      sortField === 'name' ? a.name.localeCompare(b.name) * direction : (a[sortField] - b[sortField]) * direction
+    );
+  }, [approaches, sortField, sortAscending]);
+
+  const sortButton = (field: ApproachSortField, label: string) => (
+    <button
+      onClick={() => handleSort(field)}
+      className={`inline-flex items-center gap-1 hover:text-white ${sortField === field ? 'text-cyan-400' : ''}`}
+    >
+      {label}
+      <ArrowUpDown className="w-3 h-3" />
+    </button>
+  );
+
+  return (
+    <div className="flex-1 overflow-hidden flex flex-col">
+      <div className="p-4 border-b border-gray-700 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>From</span>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-white focus:outline-none focus:border-cyan-500"
+            />
+          </label>
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>To</span>
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-white focus:outline-none focus:border-cyan-500"
+            />
+          </label>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <span>Within</span>
+          <input
+            type="number"
+            min="0.0001"
+            step="0.01"
+            value={maxDistance}
+            onChange={(e) => setMaxDistance(e.target.value)}
+            className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-white focus:outline-none focus:border-cyan-500"
+          />
+          <span>AU</span>
+          {distance > 0 && (
+            <span className="ml-auto text-gray-500">{(distance / LUNAR_DISTANCE_AU).toFixed(1)} LD</span>
+          )}
+        </label>
+        <button
+          onClick={handleSearch}
+          disabled={running || !validInput}
+          className="w-full flex items-center justify-center gap-2 py-1.5 text-sm bg-cyan-600 hover:bg-cyan-500 rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+          {running
+            ? progress ? `Propagating ${progress.current.toLocaleString()} / ${progress.total.toLocaleString()}` : 'Loading candidates...'
+            : 'Find Close Approaches'}
+        </button>
+        {!validInput && (
+          <p className="text-xs text-amber-400">The end date must be after the start and the distance positive</p>
+        )}
+        {error && (
+          <p className="flex items-center gap-1 text-xs text-red-400">
+            <AlertTriangle className="w-3 h-3 shrink-0" />
+            {error}
+          </p>
+        )}
+        {approaches && !running && (
+          <p className="text-xs text-gray-500">
+            {approaches.length.toLocaleString()} approaches · Earth-Moon barycenter, two-body orbits
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {sortedApproaches.length > 0 && (
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-gray-900 text-gray-400">
+              <tr>
+                <th className="px-2 py-2 font-medium text-left space-x-2">
+                  {sortButton('jd', 'Date (UTC)')}
+                  {sortButton('name', 'Object')}
+                </th>
+                <th className="px-2 py-2 font-medium text-right">{sortButton('distance', 'Dist')}</th>
+                <th className="px-2 py-2 font-medium text-right">{sortButton('velocity', 'km/s')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedApproaches.map((approach) => (
+                <tr
+                  key={`${approach.id}-${approach.jd}`}
+                  onClick={() => handleSelect(approach)}
+                  className="border-b border-gray-800 hover:bg-gray-800/50 cursor-pointer"
+                  title={`JD ${approach.jd.toFixed(4)} TDB`}
+                >
+                  <td className="px-2 py-2">
+                    <p className="font-mono text-gray-300">{formatApproachDate(approach.jd)}</p>
+                    <p className="text-gray-500 truncate max-w-40">{approach.name}</p>
+                  </td>
+                  <td className="px-2 py-2 text-right font-mono">
+                    <p className="text-cyan-300">{approach.distance.toFixed(4)} AU</p>
+                    <p className="text-gray-500">{(approach.distance / LUNAR_DISTANCE_AU).toFixed(1)} LD</p>
+                  </td>
+                  <td className="px-2 py-2 text-right font-mono text-gray-300">{approach.velocity.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {approaches && approaches.length === 0 && !running && (
+          <p className="p-4 text-center text-sm text-gray-500">No approaches in this range</p>
+        )}
+      </div>
+      <p className="px-4 py-2 text-[10px] text-gray-500 border-t border-gray-700">
+        Select a row to pause the clock at closest approach and fly to the asteroid
+      </p>
+    </div>
+  );
+}
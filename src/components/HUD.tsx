@@ -1,9 +1,8 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { getClock, getElapsedSeconds, formatClockRate, subscribeClock, tdbToDate } from '../lib/simClock';
 
 interface HUDProps {
   getCurrentSpeed: () => number;
-  getSimulatedTime: () => number;
-  timeScale: number;
   getVisibleAsteroids?: () => number;
 }
 
@@ -19,8 +18,10 @@ function formatSpeed(speed: number): string {
   }
 }
 
-// Convert simulated seconds to time breakdown
-function formatSimulatedTime(seconds: number): { years: number; days: number; hours: number; minutes: number } {
+// Convert simulated seconds to time breakdown; the sign is reported separately
+function formatSimulatedTime(seconds: number): { negative: boolean; years: number; days: number; hours: number; minutes: number } {
+  const negative = seconds < 0;
+  seconds = Math.abs(seconds);
   const SECONDS_PER_MINUTE = 60;
   const SECONDS_PER_HOUR = 3600;
   const SECONDS_PER_DAY = 86400;
@@ -37,44 +38,29 @@ function formatSimulatedTime(seconds: number): { years: number; days: number; ho
   
   const minutes = Math.floor(seconds / SECONDS_PER_MINUTE);
   
-  return { years, days, hours, minutes };
+  return { negative, years, days, hours, minutes };
 }
 
-// Calculate the simulated date from a start date
-function getSimulatedDate(simulatedSeconds: number): Date {
-  // Start from current real date
-  const startDate = new Date('2024-01-01T00:00:00Z'); // Fixed start for consistency
-  const simulatedMs = simulatedSeconds * 1000;
-  return new Date(startDate.getTime() + simulatedMs);
-}
-
-export function HUD({ getCurrentSpeed, getSimulatedTime, timeScale, getVisibleAsteroids }: HUDProps) {
+export function HUD({ getCurrentSpeed, getVisibleAsteroids }: HUDProps) {
   const [speed, setSpeed] = useState(0);
-  const [simulatedTime, setSimulatedTime] = useState(0);
+  // The clock publishes a few snapshots a second while running (see simClock)
+  const clock = useSyncExternalStore(subscribeClock, getClock);
   const [visibleAsteroids, setVisibleAsteroids] = useState(0);
   
   // Update at 10fps for smooth display
   useEffect(() => {
     const interval = setInterval(() => {
       setSpeed(getCurrentSpeed());
-      setSimulatedTime(getSimulatedTime());
       if (getVisibleAsteroids) {
         setVisibleAsteroids(getVisibleAsteroids());
       }
     }, 100);
     
     return () => clearInterval(interval);
-  }, [getCurrentSpeed, getSimulatedTime, getVisibleAsteroids]);
+  }, [getCurrentSpeed, getVisibleAsteroids]);
   
-  const timeBreakdown = formatSimulatedTime(simulatedTime);
-  const simulatedDate = getSimulatedDate(simulatedTime);
-  
-  // Format time scale for display
-  const timeScaleDisplay = timeScale >= 1 
-    ? `${timeScale.toFixed(0)}x` 
-    : timeScale >= 0.01 
-      ? `${timeScale.toFixed(4)}x`
-      : timeScale.toExponential(2) + 'x';
+  const timeBreakdown = formatSimulatedTime(getElapsedSeconds());
+  const simulatedDate = tdbToDate(clock.jd);
   
   return (
     <div className="fixed bottom-4 left-80 z-40 bg-black/70 backdrop-blur-sm rounded-lg p-3 border border-gray-700/50 text-left min-w-44">
@@ -87,13 +73,14 @@ export function HUD({ getCurrentSpeed, getSimulatedTime, timeScale, getVisibleAs
       {/* Time Scale */}
       <div className="mb-2">
         <div className="text-xs text-gray-500 uppercase tracking-wider">Time Scale</div>
-        <div className="text-sm font-mono text-purple-400">{timeScaleDisplay}</div>
+        <div className="text-sm font-mono text-purple-400">{formatClockRate(clock.rate)}</div>
       </div>
       
       {/* Simulated Time Elapsed */}
       <div className="mb-2">
         <div className="text-xs text-gray-500 uppercase tracking-wider">Sim. Elapsed</div>
         <div className="text-sm font-mono text-yellow-400">
+          {timeBreakdown.negative && <span>-</span>}
           {timeBreakdown.years > 0 && <span>{timeBreakdown.years}y </span>}
           {timeBreakdown.days > 0 && <span>{timeBreakdown.days}d </span>}
           <span>{String(timeBreakdown.hours).padStart(2, '0')}:</span>
@@ -118,6 +105,9 @@ export function HUD({ getCurrentSpeed, getSimulatedTime, timeScale, getVisibleAs
             hour12: false
           })}
         </div>
+        <div className="text-xs font-mono text-gray-500" title="Julian Date, Barycentric Dynamical Time">
+          JD {clock.jd.toFixed(4)} TDB
+        </div>
       </div>
       
       {/* Visible Objects (frustum culling indicator) */}
@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X, Upload, AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  type ColumnMapping,
+  type FilePreview,
+  type MappableField,
+  MAPPABLE_FIELDS,
+  autoMatchColumns,
+  validateColumnMapping,
+  readFilePreview,
+} from '../lib/importers';
+
+export interface ImportOptions {
+  catalogName: string;
+  delimiter: string;
+  mapping: ColumnMapping;
+}
+
+interface ImportDialogProps {
+  file: File;
+  status: { running: boolean; message: string; failed?: boolean } | null;
+  onImport: (options: ImportOptions) => void;
+  onClose: () => void;
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  '\t': 'Tab',
+  ';': 'Semicolon',
+  '|': 'Pipe',
+};
+
+export function ImportDialog({ file, status, onImport, onClose }: ImportDialogProps) {
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [catalogName, setCatalogName] = useState(file.name.replace(/\.[^.]+$/, ''));
+
+  useEffect(() => {
+    let cancelled = false;
+    readFilePreview(file)
+      .then(result => {
+        if (cancelled) return;
+        setPreview(result);
+        setMapping(autoMatchColumns(result.headers));
+      })
+      .catch(error => {
+        if (!cancelled) setPreviewError(error instanceof Error ? error.message : String(error));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const problems = useMemo(() => {
+    const result = validateColumnMapping(mapping);
+    if (!catalogName.trim()) result.unshift('Enter a catalog name');
+    return result;
+  }, [mapping, catalogName]);
+
+  const setFieldColumn = (field: MappableField, value: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = parseInt(value, 10);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (!preview || problems.length > 0) return;
+    onImport({ catalogName: catalogName.trim(), delimiter: preview.delimiter, mapping });
+  };
+
+  const running = status?.running === true;
+  const imported = status !== null && !status.running && !status.failed;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="w-[36rem] max-h-[85vh] flex flex-col bg-gray-900/95 border border-gray-700 rounded-xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="relative p-4 bg-linear-to-r from-gray-800 to-gray-900 border-b border-gray-700">
+          <button
+            onClick={onClose}
+            disabled={running}
+            className="absolute top-4 right-4 p-1 hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+          <div className="flex items-start gap-3 pr-8">
+            <div className="p-2 bg-cyan-600/20 rounded-lg">
+              <Upload className="w-6 h-6 text-cyan-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Import Catalog</h2>
+              <p className="text-sm text-gray-400 truncate">
+                {file.name} · {(file.size / 1024 / 1024).toFixed(1)} MB
+                {preview && ` · ${DELIMITER_LABELS[preview.delimiter] ?? preview.delimiter}-separated`}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {previewError && (
+            <p className="text-sm text-red-400">Could not read {file.name}: {previewError}</p>
+          )}
+
+          {!preview && !previewError && (
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              <Loader2 className="w-4 h-4 animate-spin" /> Reading file...
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <label className="block space-y-1">
+                <span className="text-xs text-gray-400 uppercase tracking-wider">Catalog name</span>
+                <input
+                  value={catalogName}
+                  onChange={(e) => setCatalogName(e.target.value)}
+                  disabled={running}
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm focus:outline-none focus:border-cyan-500"
+                />
+              </label>
+
+              <div className="space-y-1">
+                <span className="text-xs text-gray-400 uppercase tracking-wider">Column mapping</span>
+                <div className="border border-gray-700 rounded-lg divide-y divide-gray-800">
+                  {MAPPABLE_FIELDS.map(({ field, label, required }) => {
+                    const column = mapping[field];
+                    const sample = column !== undefined ? preview.rows[0]?.[column] : undefined;
+                    return (
+                      <div key={field} className="grid grid-cols-[1fr_1fr_6rem] items-center gap-2 px-3 py-1.5 text-xs">
+                        <span className={required ? 'text-white' : 'text-gray-400'}>
+                          {label}{required && <span className="text-red-400"> *</span>}
+                        </span>
+                        <select
+                          value={column ?? ''}
+                          onChange={(e) => setFieldColumn(field, e.target.value)}
+                          disabled={running}
+                          className="px-2 py-1 bg-gray-800 border border-gray-700 rounded focus:outline-none focus:border-cyan-500"
+                        >
+                          <option value="">Not mapped</option>
+                          {preview.headers.map((header, index) => (
+                            <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                          ))}
+                        </select>
+                        <span className="text-gray-500 font-mono truncate" title={sample}>{sample ?? ''}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {problems.length > 0 && (
+                <div className="p-3 bg-orange-900/20 rounded-lg border border-orange-700/50 space-y-1">
+                  {problems.map(problem => (
+                    <p key={problem} className="text-xs text-orange-300 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3 shrink-0" /> {problem}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-700 space-y-2">
+          {status && (
+            <p className={`text-xs ${status.running ? 'text-gray-400' : status.failed ? 'text-red-400' : 'text-cyan-400'}`}>
+              {status.message}
+            </p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              disabled={running}
+              className="px-4 py-2 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors"
+            >
+              {imported ? 'Close' : 'Cancel'}
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!preview || problems.length > 0 || running || imported}
+              className="px-4 py-2 text-sm bg-cyan-600 text-white rounded-lg hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+            >
+              {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
-import { Loader2, Rocket, Database, Download, Sparkles } from 'lucide-react';
+import { useSyncExternalStore } from 'react';
+import { Loader2, Rocket, Database, Download, Sparkles, Upload, Wifi, WifiOff } from 'lucide-react';
 import { type LoadProgress } from '../lib/dataLoader';
+import { getOfflineStatus, subscribeOfflineStatus } from '../lib/offline';
 
 // Pre-generate star positions outside component to avoid impure renders
 const STAR_COUNT = 100;
@@ -17,6 +19,8 @@ interface LoadingScreenProps {
 }
 
 export function LoadingScreen({ progress }: LoadingScreenProps) {
+  const { online, offlineReady } = useSyncExternalStore(subscribeOfflineStatus, getOfflineStatus);
+
   const getIcon = () => {
     switch (progress.phase) {
       case 'checking':
@@ -82,6 +86,18 @@ export function LoadingScreen({ progress }: LoadingScreenProps) {
         ))}
       </div>
 
+      {/* Connectivity */}
+      <div
+        className={`absolute top-4 right-4 z-10 px-3 py-1.5 rounded-full text-xs flex items-center gap-2 border ${online
+          ? 'bg-green-900/30 border-green-700/50 text-green-400'
+          : 'bg-amber-900/30 border-amber-700/50 text-amber-400'}`}
+      >
+        {online ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+        {online
+          ? offlineReady ? 'Online · available offline' : 'Online'
+          : offlineReady ? 'Offline · starting from cache' : 'Offline · first visit needs a connection'}
+      </div>
+
       {/* Main content */}
       <div className="relative z-10 flex flex-col items-center gap-8">
         {/* Logo / Title */}
@@ -132,9 +148,15 @@ export function LoadingScreen({ progress }: LoadingScreenProps) {
       </div>
 
       {/* Bottom decoration */}
-      <div className="absolute bottom-8 flex items-center gap-2 text-gray-600">
-        <Rocket className="w-4 h-4" />
-        <span className="text-sm">Powered by Three.js & React</span>
+      <div className="absolute bottom-8 flex flex-col items-center gap-2 text-gray-600">
+        <div className="flex items-center gap-2">
+          <Upload className="w-4 h-4" />
+          <span className="text-sm">Drop your own CSV or TSV here to import it as a separate catalog</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Rocket className="w-4 h-4" />
+          <span className="text-sm">Powered by Three.js & React</span>
+        </div>
       </div>
     </div>
   );
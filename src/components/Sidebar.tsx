@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo, useSyncExternalStore } from 'react';
 import {
     Search,
     ChevronLeft,
@@ -18,10 +18,60 @@ import {
     EyeOff,
     Zap,
     Tag,
-    ArrowUpDown
+    ArrowUpDown,
+    FileX,
+    RefreshCw,
+    Upload,
+    Trash2,
+    ShieldAlert,
+    SkipBack,
+    SkipForward,
+    Rewind,
+    CalendarClock
 } from 'lucide-react';
-import { type Asteroid, searchAsteroids, getAsteroidsByPage } from '../lib/indexedDB';
-import { formatCompactValue } from '../lib/dataLoader';
+import {
+    type Asteroid,
+    type ChangeLogEntry,
+    type RejectedRow,
+    type UserCatalog,
+    type QualityReport,
+    type SortField,
+    type Comet,
+    getRejectedRows,
+    getDatasetInfo,
+    getUserCatalogs,
+    getUserCatalogAsteroids,
+    deleteUserCatalog,
+    getQualityReport,
+    getAsteroidsByQualityFlag,
+    getSortedAsteroidPage,
+    countSortedAsteroids,
+    getAllComets,
+    getPriceTable,
+    sortAsteroids,
+} from '../lib/indexedDB';
+import { formatDiameter } from '../lib/diameter';
+import { CloseApproachPanel } from './CloseApproachPanel';
+import { type Commodity, type PriceTable, COMMODITIES, DEFAULT_PRICES, normalizePrices } from '../lib/valuation';
+import { cometOrbitType } from '../lib/comets';
+import { type QualityFlag, QUALITY_RULES } from '../lib/validation';
+import { type CatalogStatistics, type HistogramField, HISTOGRAM_SPECS, binEdges } from '../lib/catalogStats';
+import { parseQuery, matchesQuery } from '../lib/query';
+import { runQuery } from '../lib/searchIndex';
+import { formatCompactValue, formatChangeSummary } from '../lib/dataLoader';
+import {
+    RATE_PRESETS,
+    STEP_INTERVALS,
+    SECONDS_PER_DAY,
+    formatClockRate,
+    getClock,
+    getClockDate,
+    jumpToNow,
+    setClockDate,
+    setClockRate,
+    stepClock,
+    subscribeClock,
+} from '../lib/simClock';
 
 export interface PerformanceSettings {
     showAsteroids: boolean;
@@ -32,6 +82,29 @@ export interface PerformanceSettings {
     freeze: boolean;
 }
 
+// Short label for a histogram bin edge
+function formatBinEdge(value: number): string {
+    if (value === 0) return '0';
+    if (Math.abs(value) >= 100) return value.toFixed(0);
+    if (Math.abs(value) >= 1) return value.toFixed(1).replace(/\.0$/, '');
+    return value.toPrecision(1);
+}
+
+// Asteroids on Jupiter-family-comet-like orbits (2 < T_J < 3), the usual pool of
+// dormant comet candidates. Trojans share the T_J range but are dynamically stable.
+const COMET_LIKE_FILTER = 'tj:2..3 -class:TJN';
+
+// Value for a datetime-local input, which works in local time
+function toDateTimeLocal(date: Date): string {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 16);
+}
+
+// Price table as input strings
+function formatPrices(prices: PriceTable): Record<Commodity, string> {
+    return Object.fromEntries(COMMODITIES.map(({ id }) => [id, String(prices[id])])) as Record<Commodity, string>;
+}
+
 // Format full currency value with proper separators
 function formatFullValue(value: number): string {
     return `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
@@ -40,6 +113,9 @@ function formatFullValue(value: number): string {
 // Calculate approximate distance to Earth (simplified orbital distance)
 // Returns distance in AU based on semi-major axis and eccentricity
 function getApproxDistanceToEarth(asteroid: Asteroid): number {
+    // Earth MOID is the true minimum distance between the orbits; 999 marks it unknown
+    if (asteroid.moid < 999) return asteroid.moid;
+
     // Simplified: distance = |a - 1| (Earth is at 1 AU)
     // Better approximation using perihelion (q) and aphelion (ad)
     const earthA = 1; // AU
@@ -65,93 +141,143 @@ interface SidebarProps {
     navigationItems: Array<{ name: string; type: string }>;
     onNavigate: (name: string) => void;
     onAsteroidSelect: (asteroid: Asteroid) => void;
-    statistics: {
-        totalCount: number;
-        totalValue: number;
-        neoCount: number;
-        phaCount: number;
-    };
-    timeScale: number;
-    onTimeScaleChange: (scale: number) => void;
+    onFlyToAsteroid: (asteroid: Asteroid) => void;
+    onCometSelect: (comet: Comet) => void;
+    statistics: CatalogStatistics;
     performanceSettings: PerformanceSettings;
     onPerformanceSettingsChange: (settings: PerformanceSettings) => void;
+    catalogUpdate: { running: boolean; message: string } | null;
+    onCheckForUpdate: () => void;
+    datasetUpdateAvailable: boolean;
+    onPricesChange: (prices: PriceTable) => void;
+    catalogImport: { running: boolean; message: string } | null;
+    activeCatalog: UserCatalog | null;
+    onCatalogChange: (catalog: UserCatalog | null) => void;
 }
 
 export function Sidebar({
     navigationItems,
     onNavigate,
     onAsteroidSelect,
+    onFlyToAsteroid,
+    onCometSelect,
     statistics,
-    timeScale,
-    onTimeScaleChange,
     performanceSettings,
     onPerformanceSettingsChange,
+    catalogUpdate,
+    onCheckForUpdate,
+    datasetUpdateAvailable,
+    onPricesChange,
+    catalogImport,
+    activeCatalog,
+    onCatalogChange,
 }: SidebarProps) {
     const [isOpen, setIsOpen] = useState(true);
-    const [activeTab, setActiveTab] = useState<'nav' | 'asteroids' | 'stats'>('nav');
+    const [activeTab, setActiveTab] = useState<'nav' | 'asteroids' | 'flybys' | 'stats'>('nav');
     const [searchQuery, setSearchQuery] = useState('');
     const [currentPage, setCurrentPage] = useState(0);
     const [filterCategory, setFilterCategory] = useState<string>('all');
-    const [sortBy, setSortBy] = useState<'value' | 'diameter' | 'name' | 'distance'>('value');
+    const [sortBy, setSortBy] = useState<SortField>('value');
     const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
     const [displayAsteroids, setDisplayAsteroids] = useState<Asteroid[]>([]);
     const [totalResults, setTotalResults] = useState(0);
+    // pageCursors[n] resumes the sorted listing at page n; page 0 starts from the top
+    const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [rankedSearch, setRankedSearch] = useState(false);
     const [isSearching, setIsSearching] = useState(false);
+    const [queryErrors, setQueryErrors] = useState<string[]>([]);
+    const [queryPlan, setQueryPlan] = useState('');
+    const [datasetInfo, setDatasetInfo] = useState<{ version: string | null; changeLog: ChangeLogEntry[] }>({ version: null, changeLog: [] });
+    const [rejectedRows, setRejectedRows] = useState<{ rows: RejectedRow[]; total: number }>({ rows: [], total: 0 });
+    const [userCatalogs, setUserCatalogs] = useState<UserCatalog[]>([]);
+    const [qualityReport, setQualityReport] = useState<QualityReport | null>(null);
+    const [expandedFlag, setExpandedFlag] = useState<QualityFlag | null>(null);
+    const [flaggedAsteroids, setFlaggedAsteroids] = useState<{ results: Asteroid[]; total: number }>({ results: [], total: 0 });
+    const [histogramField, setHistogramField] = useState<HistogramField>('a');
+    const [comets, setComets] = useState<Comet[]>([]);
+    // Price inputs are edited as text and only parsed when applied
+    const [priceDraft, setPriceDraft] = useState<Record<Commodity, string>>(() => formatPrices(DEFAULT_PRICES));
+    // Only the rate is shown, so the running date's snapshots don't re-render (see simClock)
+    const clockRate = useSyncExternalStore(subscribeClock, () => getClock().rate);
+    const [dateDraft, setDateDraft] = useState(() => toDateTimeLocal(getClockDate()));
+    const [stepSeconds, setStepSeconds] = useState(SECONDS_PER_DAY);
     const pageSize = 50;
 
     const searchInputRef = useRef<HTMLInputElement>(null);
     const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // The total only changes with the query, not on page turns
+    const countedForRef = useRef('');
 
-    // Sort asteroids helper
-    const sortAsteroids = useCallback((asteroids: Asteroid[]) => {
-        return [...asteroids].sort((a, b) => {
-            let comparison = 0;
-            switch (sortBy) {
-                case 'value':
-                    comparison = a.estimatedValue - b.estimatedValue;
-                    break;
-                case 'diameter':
-                    comparison = a.diameter - b.diameter;
-                    break;
-                case 'name':
-                    comparison = (a.name || a.pdes).localeCompare(b.name || b.pdes);
-                    break;
-                case 'distance':
-                    comparison = getApproxDistanceToEarth(a) - getApproxDistanceToEarth(b);
-                    break;
-            }
-            return sortOrder === 'desc' ? -comparison : comparison;
-        });
-    }, [sortBy, sortOrder]);
+    // Any change to what is listed (query, filter, sort, catalog or its contents)
+    // starts the list from the top; earlier pages and their cursors belong to
+    // the old listing. Adjusted while rendering so the search below never runs
+    // with a stale page.
+    const listKey = `${searchQuery}|${filterCategory}|${sortBy}|${sortOrder}|${statistics.totalCount}|${catalogUpdate?.running}|${activeCatalog?.id}`;
+    const [listedFor, setListedFor] = useState(listKey);
+    if (listedFor !== listKey) {
+        setListedFor(listKey);
+        setCurrentPage(0);
+        setPageCursors([null]);
+    }
 
-    // Search asteroids from IndexedDB
+    // Run the search box and category filter as one query over the whole catalog.
+    // Free-text searches come back ranked by match; everything else is listed in
+    // the chosen sort order straight from its index.
     useEffect(() => {
+        if (filterCategory === 'comets') return;
+        // Set once the inputs change, so a slower earlier search can't overwrite a newer one
+        let cancelled = false;
+
         async function performSearch() {
             setIsSearching(true);
             try {
-                if (searchQuery.trim()) {
-                    // Search with query
-                    const { results, total } = await searchAsteroids(searchQuery, currentPage, pageSize);
-                    // Apply client-side filter for category
-                    const filtered = filterCategory === 'all' ? results : results.filter(a =>
-                        (filterCategory === 'neo' && a.neo) ||
-                        (filterCategory === 'pha' && a.pha) ||
-                        a.category === filterCategory
-                    );
-                    setDisplayAsteroids(sortAsteroids(filtered));
+                const filterTerm = filterCategory === 'all' ? ''
+                    : filterCategory === 'neo' || filterCategory === 'pha' ? filterCategory
+                    : filterCategory === 'comet-like' ? COMET_LIKE_FILTER
+                    : `category:"${filterCategory}"`;
+                const query = parseQuery(`${searchQuery} ${filterTerm}`);
+                setQueryErrors(query.errors);
+
+                if (activeCatalog) {
+                    // Imported catalogs are small enough to filter and sort in memory
+                    const rows = await getUserCatalogAsteroids(activeCatalog.id);
+                    if (cancelled) return;
+                    const matches = sortAsteroids(rows.filter(asteroid => matchesQuery(asteroid, query)), { field: sortBy, direction: sortOrder });
+                    setDisplayAsteroids(matches.slice(currentPage * pageSize, (currentPage + 1) * pageSize));
+                    setTotalResults(matches.length);
+                    setQueryPlan(`Imported catalog "${activeCatalog.name}", filtered in memory`);
+                    setNextCursor(null);
+                    setRankedSearch(false);
+                    countedForRef.current = '';
+                } else if (query.terms.some(term => term.kind === 'text' && !term.negated)) {
+                    const { results, total, plan } = await runQuery(query, currentPage, pageSize);
+                    if (cancelled) return;
+                    setDisplayAsteroids(results);
                     setTotalResults(total);
+                    setQueryPlan(plan);
+                    setNextCursor(null);
+                    setRankedSearch(true);
+                    countedForRef.current = '';
                 } else {
-                    // Load by page when no search query
-                    const results = await getAsteroidsByPage(currentPage, pageSize);
-                    const filtered = filterCategory === 'all' ? results : results.filter(a =>
-                        (filterCategory === 'neo' && a.neo) ||
-                        (filterCategory === 'pha' && a.pha) ||
-                        a.category === filterCategory
-                    );
-                    setDisplayAsteroids(sortAsteroids(filtered));
-                    setTotalResults(statistics.totalCount);
+                    const sort = { field: sortBy, direction: sortOrder };
+                    const countKey = `${searchQuery}|${filterTerm}|${sortBy}|${statistics.totalCount}|${catalogUpdate?.running}`;
+                    const [page, count] = await Promise.all([
+                        getSortedAsteroidPage(query, sort, pageCursors[currentPage] ?? null, pageSize),
+                        countedForRef.current === countKey ? null : countSortedAsteroids(query, sort),
+                    ]);
+                    if (cancelled) return;
+                    setDisplayAsteroids(page.results);
+                    setNextCursor(page.nextCursor);
+                    setRankedSearch(false);
+                    if (count) {
+                        countedForRef.current = countKey;
+                        setTotalResults(count.total);
+                        setQueryPlan(count.plan);
+                    }
                 }
             } catch (error) {
+                if (cancelled) return;
                 console.error('Search failed:', error);
             }
             setIsSearching(false);
@@ -164,22 +290,102 @@ export function Sidebar({
         searchTimeoutRef.current = setTimeout(performSearch, 300);
 
         return () => {
+            cancelled = true;
             if (searchTimeoutRef.current) {
                 clearTimeout(searchTimeoutRef.current);
             }
         };
-    }, [searchQuery, currentPage, filterCategory, statistics.totalCount, sortAsteroids]);
+    }, [searchQuery, currentPage, pageCursors, filterCategory, sortBy, sortOrder, statistics.totalCount, catalogUpdate?.running, activeCatalog]);
 
-    const totalPages = Math.ceil(totalResults / pageSize);
+    // Comets live in their own store and are few enough to filter in memory
+    useEffect(() => {
+        if (filterCategory !== 'comets') return;
+        getAllComets()
+            .then(setComets)
+            .catch(error => console.error('Failed to load comets:', error));
+    }, [filterCategory, catalogUpdate?.running]);
+
+    const cometResults = useMemo(() => {
+        const text = searchQuery.trim().toLowerCase();
+        return comets
+            .filter(comet => !text || [comet.name, comet.pdes, comet.full_name].some(name => name.toLowerCase().includes(text)))
+            .sort((a, b) => a.q - b.q);
+    }, [comets, searchQuery]);
+    const showingComets = filterCategory === 'comets';
+
+    // Load the quarantine list of malformed source rows when the Stats tab opens
+    useEffect(() => {
+        if (activeTab !== 'stats') return;
+        getRejectedRows()
+            .then(setRejectedRows)
+            .catch(error => console.error('Failed to load rejected rows:', error));
+        getDatasetInfo()
+            .then(setDatasetInfo)
+            .catch(error => console.error('Failed to load dataset info:', error));
+        getQualityReport()
+            .then(setQualityReport)
+            .catch(error => console.error('Failed to load quality report:', error));
+        getPriceTable()
+            .then(prices => setPriceDraft(formatPrices(prices)))
+            .catch(error => console.error('Failed to load price table:', error));
+    }, [activeTab, statistics.totalCount, catalogUpdate?.running]);
+
+    useEffect(() => {
+        if (activeTab !== 'stats') return;
+        getUserCatalogs()
+            .then(setUserCatalogs)
+            .catch(error => console.error('Failed to load imported catalogs:', error));
+    }, [activeTab, catalogImport?.running]);
+
+    // Drill down into the rows that failed one validation rule
+    const toggleQualityFlag = useCallback(async (flag: QualityFlag) => {
+        if (expandedFlag === flag) {
+            setExpandedFlag(null);
+            return;
+        }
+        setExpandedFlag(flag);
+        setFlaggedAsteroids({ results: [], total: 0 });
+        try {
+            setFlaggedAsteroids(await getAsteroidsByQualityFlag(flag, 0, pageSize));
+        } catch (error) {
+            console.error('Failed to load flagged asteroids:', error);
+        }
+    }, [expandedFlag]);
+
+    // Browse an imported catalog in the list and the belt, or the main one with null
+    const handleViewCatalog = useCallback((catalog: UserCatalog | null) => {
+        onCatalogChange(catalog);
+        if (catalog) setActiveTab('asteroids');
+    }, [onCatalogChange]);
+
+    const handleDeleteCatalog = useCallback(async (catalog: UserCatalog) => {
+        if (!window.confirm(`Delete the imported catalog "${catalog.name}"?`)) return;
+        if (activeCatalog?.id === catalog.id) handleViewCatalog(null);
+        await deleteUserCatalog(catalog.id);
+        setUserCatalogs(await getUserCatalogs());
+    }, [activeCatalog, handleViewCatalog]);
+
+    const histogram = statistics.histograms[histogramField];
+    const histogramSpec = HISTOGRAM_SPECS.find(spec => spec.field === histogramField);
+    const histogramPeak = histogram ? Math.max(...histogram.bins) : 0;
+    const categoryTotals = Object.entries(statistics.categories).sort(([, x], [, y]) => y.count - x.count);
+
+    const listTotal = showingComets ? cometResults.length : totalResults;
+    const totalPages = Math.ceil(listTotal / pageSize);
+    const hasNextPage = showingComets || rankedSearch || activeCatalog ? currentPage < totalPages - 1 : nextCursor !== null;
+    const pagedComets = showingComets ? cometResults.slice(currentPage * pageSize, (currentPage + 1) * pageSize) : [];
+
+    const goToNextPage = useCallback(() => {
+        setPageCursors(cursors => [...cursors.slice(0, currentPage + 1), nextCursor]);
+        setCurrentPage(p => p + 1);
+    }, [currentPage, nextCursor]);
 
     const handleSearch = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
         setSearchQuery(e.target.value);
-        setCurrentPage(0);
     }, []);
 
     const handleFilterChange = useCallback((filter: string) => {
         setFilterCategory(filter);
-        setCurrentPage(0);
     }, []);
 
     const getTypeIcon = (type: string) => {
@@ -235,6 +441,13 @@ export function Sidebar({
                         >
                             Asteroids
                         </button>
+                        <button
+                            onClick={() => setActiveTab('flybys')}
+                            className={`flex-1 py-3 text-sm font-medium transition-colors ${activeTab === 'flybys' ? 'text-cyan-400 border-b-2 border-cyan-400' : 'text-gray-400 hover:text-white'
+                                }`}
+                        >
+                            Flybys
+                        </button>
                         <button
                             onClick={() => setActiveTab('stats')}
                             className={`flex-1 py-3 text-sm font-medium transition-colors ${activeTab === 'stats' ? 'text-cyan-400 border-b-2 border-cyan-400' : 'text-gray-400 hover:text-white'
@@ -249,35 +462,31 @@ export function Sidebar({
                         {/* Navigation Tab */}
                         {activeTab === 'nav' && (
                             <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                                {/* Time Scale Control */}
-                                <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-700">
-                                    <div className="flex items-center gap-2 mb-2">
+                                {/* Simulation Clock */}
+                                <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-700 space-y-2">
+                                    <div className="flex items-center gap-2">
                                         <Clock className="w-4 h-4 text-cyan-400" />
                                         <span className="text-xs text-gray-400">Time Speed</span>
                                         <span className="ml-auto text-xs text-cyan-400 font-mono">
-                                            {timeScale === 0 ? 'Paused' : 
-                                             timeScale === 1 ? 'Real-time' :
-                                             timeScale === 3600 ? '1hr/sec' :
-                                             timeScale === 86400 ? '1day/sec' :
-                                             timeScale === 604800 ? '1week/sec' :
-                                             timeScale === 2592000 ? '1month/sec' :
-                                             `${timeScale.toLocaleString()}x`}
+                                            {formatClockRate(clockRate)}
                                         </span>
                                     </div>
                                     <div className="flex gap-1 flex-wrap">
-                                        {[
-                                            { label: '⏸', value: 0 },
-                                            { label: '1x', value: 1 },
-                                            { label: '1h/s', value: 3600 },
-                                            { label: '1d/s', value: 86400 },
-                                            { label: '1w/s', value: 604800 },
-                                            { label: '1m/s', value: 2592000 },
-                                        ].map(({ label, value }) => (
+                                        <button
+                                            onClick={() => setClockRate(0)}
+                                            className={`px-2 py-1 text-xs rounded transition-colors ${clockRate === 0
+                                                ? 'bg-cyan-600 text-white'
+                                                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                        >
+                                            ⏸
+                                        </button>
+                                        {RATE_PRESETS.map(({ label, rate }) => (
                                             <button
-                                                key={value}
-                                                onClick={() => onTimeScaleChange(value)}
+                                                key={rate}
+                                                // Keep the current direction
+                                                onClick={() => setClockRate(clockRate < 0 ? -rate : rate)}
                                                 className={`px-2 py-1 text-xs rounded transition-colors ${
-                                                    timeScale === value 
+                                                    Math.abs(clockRate) === rate 
                                                         ? 'bg-cyan-600 text-white' 
                                                         : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
                                                 }`}
@@ -285,6 +494,68 @@ export function Sidebar({
                                                 {label}
                                             </button>
                                         ))}
+                                        <button
+                                            onClick={() => setClockRate(-clockRate)}
+                                            disabled={clockRate === 0}
+                                            title="Run time backwards"
+                                            className={`px-2 py-1 text-xs rounded transition-colors disabled:opacity-50 ${clockRate < 0
+                                                ? 'bg-purple-600 text-white'
+                                                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                        >
+                                            <Rewind className="w-3 h-3" />
+                                        </button>
+                                    </div>
+
+                                    <div className="flex items-center gap-1">
+                                        <CalendarClock className="w-3 h-3 text-gray-500 shrink-0" />
+                                        <input
+                                            type="datetime-local"
+                                            value={dateDraft}
+                                            onChange={(e) => setDateDraft(e.target.value)}
+                                            className="flex-1 min-w-0 px-2 py-1 text-xs bg-gray-900 border border-gray-700 rounded text-gray-200 focus:outline-none focus:border-cyan-500"
+                                        />
+                                        <button
+                                            onClick={() => setClockDate(new Date(dateDraft))}
+                                            disabled={!dateDraft}
+                                            className="px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50"
+                                        >
+                                            Go
+                                        </button>
+                                        <button
+                                            onClick={() => {
+                                                jumpToNow();
+                                                setDateDraft(toDateTimeLocal(new Date()));
+                                            }}
+                                            className="px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600"
+                                        >
+                                            Now
+                                        </button>
+                                    </div>
+
+                                    <div className="flex items-center gap-1">
+                                        <button
+                                            onClick={() => stepClock(-stepSeconds)}
+                                            title="Step back"
+                                            className="px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600"
+                                        >
+                                            <SkipBack className="w-3 h-3" />
+                                        </button>
+                                        <select
+                                            value={stepSeconds}
+                                            onChange={(e) => setStepSeconds(Number(e.target.value))}
+                                            className="flex-1 px-2 py-1 text-xs bg-gray-900 border border-gray-700 rounded text-gray-200 focus:outline-none focus:border-cyan-500"
+                                        >
+                                            {STEP_INTERVALS.map(({ label, seconds }) => (
+                                                <option key={seconds} value={seconds}>Step {label}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={() => stepClock(stepSeconds)}
+                                            title="Step forward"
+                                            className="px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600"
+                                        >
+                                            <SkipForward className="w-3 h-3" />
+                                        </button>
                                     </div>
                                 </div>
 
@@ -439,7 +710,8 @@ export function Sidebar({
                                         <input
                                             ref={searchInputRef}
                                             type="text"
-                                            placeholder="Search asteroids..."
+                                            placeholder="Search, e.g. a:2.5..2.8 e:<0.1 pha class:APO"
+                                            title={'Terms: a:2.5..2.8  e:<0.1  diameter:>10  class:APO  category:"Main Belt"  tj:2..3  dv:<6  pha  neo:no  name:~ceres  -class:MBA'}
                                             value={searchQuery}
                                             onChange={handleSearch}
                                             className="w-full pl-10 pr-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm focus:outline-none focus:border-cyan-500 transition-colors"
@@ -454,10 +726,32 @@ export function Sidebar({
                                         )}
                                     </div>
 
+                                    {activeCatalog && (
+                                        <div className="flex items-center justify-between gap-2 px-3 py-2 text-xs bg-cyan-900/30 border border-cyan-800 rounded-lg">
+                                            <span className="truncate text-cyan-300" title={activeCatalog.fileName}>
+                                                Imported catalog: {activeCatalog.name}
+                                            </span>
+                                            <button
+                                                onClick={() => handleViewCatalog(null)}
+                                                className="shrink-0 text-gray-300 hover:text-white"
+                                            >
+                                                Main catalog
+                                            </button>
+                                        </div>
+                                    )}
+
+                                    {queryErrors.length > 0 && (
+                                        <div className="space-y-0.5">
+                                            {queryErrors.map((error) => (
+                                                <p key={error} className="text-xs text-orange-400">{error}</p>
+                                            ))}
+                                        </div>
+                                    )}
+
                                     {/* Filter */}
                                     <div className="flex items-center gap-2 overflow-x-auto pb-1">
                                         <Filter className="w-4 h-4 text-gray-400 shrink-0" />
-                                        {['all', 'neo', 'pha', 'Inner Main Belt', 'Outer Main Belt'].map((filter) => (
+                                        {['all', 'neo', 'pha', 'Main Belt', 'Jupiter Trojan', 'comet-like', 'comets'].map((filter) => (
                                             <button
                                                 key={filter}
                                                 onClick={() => handleFilterChange(filter)}
@@ -466,7 +760,7 @@ export function Sidebar({
                                                         : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
                                                     }`}
                                             >
-                                                {filter === 'neo' ? 'NEO' : filter === 'pha' ? 'PHA' : filter === 'all' ? 'All' : filter}
+                                                {filter === 'neo' ? 'NEO' : filter === 'pha' ? 'PHA' : filter === 'all' ? 'All' : filter === 'comets' ? 'Comets' : filter === 'comet-like' ? 'Comet-like' : filter}
                                             </button>
                                         ))}
                                     </div>
@@ -476,30 +770,34 @@ export function Sidebar({
                                         <ArrowUpDown className="w-4 h-4 text-gray-400 shrink-0" />
                                         <select
                                             value={sortBy}
-                                            onChange={(e) => {
-                                                setSortBy(e.target.value as typeof sortBy);
-                                                setCurrentPage(0);
-                                            }}
-                                            className="flex-1 px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded text-gray-200 focus:outline-none focus:border-cyan-500"
+                                            onChange={(e) => setSortBy(e.target.value as SortField)}
+                                            disabled={rankedSearch || showingComets}
+                                            title={rankedSearch ? 'Search results are ranked by match' : showingComets ? 'Comets are listed by perihelion distance' : undefined}
+                                            className="flex-1 px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded text-gray-200 focus:outline-none focus:border-cyan-500 disabled:opacity-50"
                                         >
                                             <option value="value">Value</option>
                                             <option value="diameter">Diameter</option>
-                                            <option value="distance">Distance to Earth</option>
+                                            <option value="moid">Distance to Earth (MOID)</option>
+                                            <option value="deltaV">Delta-v from LEO</option>
+                                            <option value="a">Semi-major axis</option>
+                                            <option value="H">Absolute magnitude</option>
                                             <option value="name">Name</option>
                                         </select>
                                         <button
-                                            onClick={() => {
-                                                setSortOrder(o => o === 'asc' ? 'desc' : 'asc');
-                                                setCurrentPage(0);
-                                            }}
-                                            className="px-2 py-1 text-xs bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+                                            onClick={() => setSortOrder(o => o === 'asc' ? 'desc' : 'asc')}
+                                            disabled={rankedSearch || showingComets}
+                                            className="px-2 py-1 text-xs bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
                                         >
                                             {sortOrder === 'desc' ? '↓' : '↑'}
                                         </button>
                                     </div>
 
                                     {/* Search progress / status */}
-                                    {isSearching ? (
+                                    {showingComets ? (
+                                        <p className="text-xs text-gray-500">
+                                            Showing {pagedComets.length} of {cometResults.length.toLocaleString()} comets, closest perihelion first
+                                        </p>
+                                    ) : isSearching ? (
                                         <div className="space-y-1">
                                             <p className="text-xs text-gray-500">Searching...</p>
                                             <div className="h-1 bg-gray-700 rounded-full overflow-hidden">
@@ -509,13 +807,40 @@ export function Sidebar({
                                     ) : (
                                         <p className="text-xs text-gray-500">
                                             Showing {displayAsteroids.length} of {totalResults.toLocaleString()} asteroids
+                                            {queryPlan && <span className="text-gray-600"> · {queryPlan}</span>}
                                         </p>
                                     )}
                                 </div>
 
                                 {/* Asteroid List */}
                                 <div className="flex-1 overflow-y-auto">
-                                    {displayAsteroids.map((asteroid) => (
+                                    {pagedComets.map((comet) => (
+                                        <button
+                                            key={comet.id}
+                                            onClick={() => onCometSelect(comet)}
+                                            className="w-full p-3 border-b border-gray-800 hover:bg-gray-800/50 transition-colors text-left"
+                                        >
+                                            <div className="flex items-start justify-between gap-2">
+                                                <div className="min-w-0 flex-1">
+                                                    <p className="text-sm font-medium truncate">
+                                                        {comet.full_name.trim() || comet.pdes}
+                                                    </p>
+                                                    <p className="text-xs text-gray-400 truncate">
+                                                        {comet.category}
+                                                    </p>
+                                                </div>
+                                                <div className="text-right shrink-0">
+                                                    <p className="text-sm text-cyan-300" title="Perihelion distance">
+                                                        q {comet.q.toFixed(2)} AU
+                                                    </p>
+                                                    <p className="text-xs text-gray-500">
+                                                        e {comet.e.toFixed(3)} · {cometOrbitType(comet)}
+                                                    </p>
+                                                </div>
+                                            </div>
+                                        </button>
+                                    ))}
+                                    {!showingComets && displayAsteroids.map((asteroid) => (
                                         <button
                                             key={asteroid.id}
                                             onClick={() => onAsteroidSelect(asteroid)}
@@ -534,25 +859,25 @@ export function Sidebar({
                                                     <p className="text-sm font-bold text-green-400" title={formatFullValue(asteroid.estimatedValue)}>
                                                         {formatCompactValue(asteroid.estimatedValue)}
                                                     </p>
-                                                    <p className={`text-xs ${getDifficultyColor(asteroid.miningDifficulty)}`}>
+                                                    <p className={`text-xs ${getDifficultyColor(asteroid.miningDifficulty)}`} title={Number.isFinite(asteroid.deltaV) ? `${asteroid.deltaV.toFixed(2)} km/s from LEO` : undefined}>
                                                         {asteroid.miningDifficulty}
                                                     </p>
                                                 </div>
                                             </div>
                                             <div className="flex items-center gap-2 mt-1 flex-wrap">
-                                                {asteroid.neo && (
+                                                {asteroid.neo === 1 && (
                                                     <span className="px-1.5 py-0.5 text-xs bg-blue-600/30 text-blue-400 rounded">
                                                         NEO
                                                     </span>
                                                 )}
-                                                {asteroid.pha && (
+                                                {asteroid.pha === 1 && (
                                                     <span className="px-1.5 py-0.5 text-xs bg-red-600/30 text-red-400 rounded flex items-center gap-1">
                                                         <AlertTriangle className="w-3 h-3" /> PHA
                                                     </span>
                                                 )}
                                                 {asteroid.diameter > 0 && (
                                                     <span className="text-xs text-gray-500" title="Diameter">
-                                                        ⌀ {asteroid.diameter.toFixed(1)} km
+                                                        ⌀ {formatDiameter(asteroid)}
                                                     </span>
                                                 )}
                                                 <span className="text-xs text-cyan-500/70" title="Min. distance to Earth orbit">
@@ -564,7 +889,7 @@ export function Sidebar({
                                 </div>
 
                                 {/* Pagination */}
-                                {totalPages > 1 && (
+                                {(currentPage > 0 || hasNextPage) && (
                                     <div className="p-3 border-t border-gray-700 flex items-center justify-between">
                                         <button
                                             onClick={() => setCurrentPage(p => Math.max(0, p - 1))}
@@ -577,8 +902,8 @@ export function Sidebar({
                                             {currentPage + 1} / {totalPages}
                                         </span>
                                         <button
-                                            onClick={() => setCurrentPage(p => Math.min(totalPages - 1, p + 1))}
-                                            disabled={currentPage >= totalPages - 1}
+                                            onClick={goToNextPage}
+                                            disabled={!hasNextPage}
                                             className="px-3 py-1 text-sm bg-gray-800 rounded disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-700 transition-colors"
                                         >
                                             Next
@@ -588,6 +913,9 @@ export function Sidebar({
                             </div>
                         )}
 
+                        {/* Close Approaches Tab */}
+                        {activeTab === 'flybys' && <CloseApproachPanel onFlyToAsteroid={onFlyToAsteroid} />}
+
                         {/* Stats Tab */}
                         {activeTab === 'stats' && (
                             <div className="flex-1 overflow-y-auto p-4 space-y-4">
@@ -637,6 +965,270 @@ export function Sidebar({
                                     </div>
                                 </div>
 
+                                {histogram && histogramSpec && (
+                                    <div className="space-y-2">
+                                        <h3 className="text-gray-400 text-xs uppercase tracking-wider">Distributions</h3>
+                                        <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-700 space-y-2">
+                                            <div className="flex flex-wrap gap-1">
+                                                {HISTOGRAM_SPECS.map(spec => (
+                                                    <button
+                                                        key={spec.field}
+                                                        onClick={() => setHistogramField(spec.field)}
+                                                        className={`px-2 py-0.5 text-xs rounded transition-colors ${histogramField === spec.field
+                                                                ? 'bg-cyan-600 text-white'
+                                                                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                            }`}
+                                                    >
+                                                        {spec.field}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <div className="flex items-end gap-px h-24">
+                                                {histogram.bins.map((count, bin) => {
+                                                    const [low, high] = binEdges(histogram, bin);
+                                                    return (
+                                                        <div
+                                                            key={bin}
+                                                            className="flex-1 bg-cyan-500/70 hover:bg-cyan-400 rounded-t-sm"
+                                                            style={{ height: `${histogramPeak > 0 ? (count / histogramPeak) * 100 : 0}%` }}
+                                                            title={`${formatBinEdge(low)}–${formatBinEdge(high)} ${histogramSpec.unit}: ${count.toLocaleString()}`}
+                                                        />
+                                                    );
+                                                })}
+                                            </div>
+                                            <div className="flex justify-between text-xs text-gray-500">
+                                                <span>{formatBinEdge(binEdges(histogram, 0)[0])}</span>
+                                                <span>{histogramSpec.label}{histogramSpec.unit && ` (${histogramSpec.unit})`}{histogramSpec.scale === 'log' && ', log'}</span>
+                                                <span>{formatBinEdge(binEdges(histogram, histogram.bins.length - 1)[1])}</span>
+                                            </div>
+                                            <p className="text-xs text-gray-600">
+                                                {histogram.underflow + histogram.overflow > 0 && `${(histogram.underflow + histogram.overflow).toLocaleString()} outside the chart`}
+                                                {histogram.underflow + histogram.overflow > 0 && histogram.missing > 0 && ' · '}
+                                                {histogram.missing > 0 && `${histogram.missing.toLocaleString()} unknown`}
+                                                {statistics.ranges[histogramField] && ` · range ${formatBinEdge(statistics.ranges[histogramField].min)} to ${formatBinEdge(statistics.ranges[histogramField].max)}`}
+                                            </p>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {categoryTotals.length > 0 && (
+                                    <div className="space-y-2">
+                                        <h3 className="text-gray-400 text-xs uppercase tracking-wider">By Category</h3>
+                                        <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-700 space-y-1">
+                                            {categoryTotals.map(([category, totals]) => (
+                                                <div key={category} className="flex items-center justify-between gap-2 text-xs">
+                                                    <span className="text-gray-300 truncate">{category}</span>
+                                                    <span className="text-gray-500 shrink-0">
+                                                        {totals.count.toLocaleString()} · <span className="text-green-400">{formatCompactValue(totals.totalValue)}</span>
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                <div className="space-y-2">
+                                    <h3 className="text-gray-400 text-xs uppercase tracking-wider">Commodity Prices ($/kg)</h3>
+                                    <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-700 space-y-2">
+                                        {COMMODITIES.map(({ id, label }) => (
+                                            <label key={id} className="flex items-center justify-between gap-2 text-xs">
+                                                <span className="text-gray-300">{label}</span>
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step="any"
+                                                    value={priceDraft[id]}
+                                                    onChange={(e) => setPriceDraft(draft => ({ ...draft, [id]: e.target.value }))}
+                                                    className="w-28 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-right font-mono text-gray-200 focus:outline-none focus:border-cyan-600"
+                                                />
+                                            </label>
+                                        ))}
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={() => setPriceDraft(formatPrices(DEFAULT_PRICES))}
+                                                disabled={catalogUpdate?.running}
+                                                className="flex-1 px-3 py-2 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                            >
+                                                Defaults
+                                            </button>
+                                            <button
+                                                onClick={() => onPricesChange(normalizePrices(priceDraft))}
+                                                disabled={catalogUpdate?.running}
+                                                className="flex-1 px-3 py-2 text-xs bg-cyan-700 text-white rounded hover:bg-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                            >
+                                                Revalue Catalog
+                                            </button>
+                                        </div>
+                                        <p className="text-xs text-gray-500">
+                                            Values are contained resources at these prices, using a composition profile per taxonomic type.
+                                        </p>
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <h3 className="text-gray-400 text-xs uppercase tracking-wider">Catalog</h3>
+                                    <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-700 space-y-2">
+                                        {datasetInfo.version && (
+                                            <p className="text-xs text-gray-500 truncate" title={datasetInfo.version}>
+                                                Version: <span className="font-mono text-gray-400">{datasetInfo.version}</span>
+                                            </p>
+                                        )}
+                                        {datasetInfo.changeLog[0] && (
+                                            <p className="text-xs text-gray-400">
+                                                {new Date(datasetInfo.changeLog[0].timestamp).toLocaleDateString()}: {formatChangeSummary(datasetInfo.changeLog[0])}
+                                            </p>
+                                        )}
+                                        {datasetUpdateAvailable && !catalogUpdate?.running && (
+                                            <p className="text-xs text-amber-400">
+                                                A newer dataset is available on the server
+                                            </p>
+                                        )}
+                                        <button
+                                            onClick={onCheckForUpdate}
+                                            disabled={catalogUpdate?.running}
+                                            className={`w-full px-3 py-2 text-xs rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 ${datasetUpdateAvailable
+                                                ? 'bg-amber-600/80 text-white hover:bg-amber-600'
+                                                : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+                                        >
+                                            <RefreshCw className={`w-3 h-3 ${catalogUpdate?.running ? 'animate-spin' : ''}`} />
+                                            {datasetUpdateAvailable ? 'Update Dataset' : 'Check for Updates'}
+                                        </button>
+                                        {catalogUpdate && (
+                                            <p className={`text-xs ${catalogUpdate.running ? 'text-gray-500' : 'text-cyan-400'}`}>
+                                                {catalogUpdate.message}
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <h3 className="text-gray-400 text-xs uppercase tracking-wider">Imported Catalogs</h3>
+                                    {userCatalogs.length === 0 ? (
+                                        <p className="text-xs text-gray-500 flex items-center gap-1">
+                                            <Upload className="w-3 h-3" />
+                                            Drop a CSV or TSV file on the scene to import it
+                                        </p>
+                                    ) : (
+                                        <div className="space-y-2">
+                                            {userCatalogs.map((catalog) => (
+                                                <div key={catalog.id} className="p-3 bg-gray-800/50 rounded-lg border border-gray-700 flex items-start justify-between gap-2">
+                                                    <div className="min-w-0">
+                                                        <p className="text-sm text-white truncate" title={catalog.name}>{catalog.name}</p>
+                                                        <p className="text-xs text-gray-500 truncate" title={catalog.fileName}>
+                                                            {catalog.fileName} · {new Date(catalog.createdAt).toLocaleDateString()}
+                                                        </p>
+                                                        <p className="text-xs text-gray-400">
+                                                            {catalog.count.toLocaleString()} asteroids
+                                                            {catalog.rejectedCount > 0 && (
+                                                                <span className="text-orange-400"> · {catalog.rejectedCount.toLocaleString()} rows rejected</span>
+                                                            )}
+                                                        </p>
+                                                    </div>
+                                                    <div className="flex items-center gap-1 shrink-0">
+                                                        <button
+                                                            onClick={() => handleViewCatalog(activeCatalog?.id === catalog.id ? null : catalog)}
+                                                            className={`p-1 rounded transition-colors hover:bg-gray-700 ${activeCatalog?.id === catalog.id ? 'text-cyan-400' : 'text-gray-500 hover:text-cyan-400'}`}
+                                                            title={activeCatalog?.id === catalog.id ? 'Back to the main catalog' : 'Show in the list and the 3D view'}
+                                                        >
+                                                            {activeCatalog?.id === catalog.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleDeleteCatalog(catalog)}
+                                                            className="p-1 text-gray-500 hover:text-red-400 hover:bg-gray-700 rounded transition-colors"
+                                                            title="Delete catalog"
+                                                        >
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+
+                                {qualityReport && (
+                                    <div className="space-y-2">
+                                        <h3 className="text-gray-400 text-xs uppercase tracking-wider">Data Quality</h3>
+                                        <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-700 space-y-1">
+                                            <p className="text-xs text-gray-500 mb-2">
+                                                {qualityReport.checked.toLocaleString()} rows checked on {new Date(qualityReport.timestamp).toLocaleDateString()}
+                                            </p>
+                                            {QUALITY_RULES.map((rule) => {
+                                                const count = qualityReport.counts[rule.flag] || 0;
+                                                const isExpanded = expandedFlag === rule.flag;
+                                                return (
+                                                    <div key={rule.flag}>
+                                                        <button
+                                                            onClick={() => toggleQualityFlag(rule.flag)}
+                                                            disabled={count === 0}
+                                                            title={rule.description}
+                                                            className="w-full flex items-center justify-between gap-2 px-2 py-1 text-xs rounded hover:bg-gray-700 disabled:hover:bg-transparent disabled:cursor-default transition-colors"
+                                                        >
+                                                            <span className={`flex items-center gap-1 ${count > 0 ? 'text-gray-300' : 'text-gray-600'}`}>
+                                                                <ShieldAlert className={`w-3 h-3 ${count > 0 ? 'text-yellow-400' : 'text-gray-600'}`} />
+                                                                {rule.label}
+                                                            </span>
+                                                            <span className={`font-mono ${count > 0 ? 'text-yellow-400' : 'text-gray-600'}`}>
+                                                                {count.toLocaleString()}
+                                                            </span>
+                                                        </button>
+                                                        {isExpanded && (
+                                                            <div className="ml-4 mt-1 mb-2 max-h-48 overflow-y-auto space-y-1">
+                                                                <p className="text-xs text-gray-500">{rule.description}</p>
+                                                                {flaggedAsteroids.results.map((asteroid) => (
+                                                                    <button
+                                                                        key={asteroid.id}
+                                                                        onClick={() => onAsteroidSelect(asteroid)}
+                                                                        className="w-full text-left text-xs border-b border-gray-800 pb-1 hover:text-cyan-400 transition-colors"
+                                                                    >
+                                                                        <span className="text-gray-300">{asteroid.name || asteroid.pdes || asteroid.id}</span>
+                                                                        <span className="text-gray-600 font-mono ml-2">
+                                                                            a={asteroid.a} e={asteroid.e} i={asteroid.i}
+                                                                        </span>
+                                                                    </button>
+                                                                ))}
+                                                                {flaggedAsteroids.total > flaggedAsteroids.results.length && (
+                                                                    <p className="text-xs text-gray-500">
+                                                                        Showing first {flaggedAsteroids.results.length.toLocaleString()} of {flaggedAsteroids.total.toLocaleString()}
+                                                                    </p>
+                                                                )}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {rejectedRows.total > 0 && (
+                                    <div className="space-y-2">
+                                        <h3 className="text-gray-400 text-xs uppercase tracking-wider">Rejected Rows</h3>
+                                        <div className="p-3 bg-orange-900/20 rounded-lg border border-orange-700/50">
+                                            <div className="flex items-center gap-1 mb-2">
+                                                <FileX className="w-3 h-3 text-orange-400" />
+                                                <span className="text-xs text-gray-400">
+                                                    {rejectedRows.total.toLocaleString()} catalog rows could not be imported
+                                                </span>
+                                            </div>
+                                            <div className="max-h-48 overflow-y-auto space-y-1">
+                                                {rejectedRows.rows.map((row) => (
+                                                    <div key={row.line} className="text-xs border-b border-gray-800 pb-1">
+                                                        <p className="text-orange-300 font-mono">Line {row.line.toLocaleString()}</p>
+                                                        <p className="text-gray-400">{row.reason}</p>
+                                                        <p className="text-gray-600 truncate" title={row.preview}>{row.preview}</p>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                            {rejectedRows.total > rejectedRows.rows.length && (
+                                                <p className="text-xs text-gray-500 mt-2">
+                                                    Showing first {rejectedRows.rows.length.toLocaleString()}
+                                                </p>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+
                                 <div className="space-y-2">
                                     <h3 className="text-gray-400 text-xs uppercase tracking-wider">Legend</h3>
                                     <div className="text-xs space-y-1 text-gray-400">
@@ -0,0 +1,153 @@
+import { type Asteroid } from './indexedDB';
+
+// Catalog-wide aggregates computed by the ingest worker in the same pass that
+// builds the column cache and search index, then stored in the metadata store
+// so startup and the Stats tab read them without touching the asteroid rows.
+
+export type HistogramField = 'a' | 'e' | 'i' | 'H' | 'diameter';
+export type RangeField = HistogramField | 'moid' | 'estimatedValue';
+
+export interface Histogram {
+  field: HistogramField;
+  scale: 'linear' | 'log';
+  min: number; // Lower edge of the first bin (log10 of it for log scales)
+  max: number;
+  bins: number[];
+  underflow: number;
+  overflow: number;
+  missing: number;
+}
+
+export interface GroupTotals {
+  count: number;
+  totalValue: number;
+}
+
+export interface CatalogStatistics {
+  totalCount: number;
+  totalValue: number;
+  neoCount: number;
+  phaCount: number;
+  classes: Record<string, GroupTotals>;
+  categories: Record<string, GroupTotals>;
+  ranges: Partial<Record<RangeField, { min: number; max: number }>>;
+  histograms: Partial<Record<HistogramField, Histogram>>;
+  timestamp: number;
+}
+
+interface HistogramSpec {
+  field: HistogramField;
+  label: string;
+  unit: string;
+  scale: 'linear' | 'log';
+  min: number;
+  max: number;
+  binCount: number;
+}
+
+// Ranges cover the bulk of the known population; the tails land in under/overflow
+export const HISTOGRAM_SPECS: HistogramSpec[] = [
+  { field: 'a', label: 'Semi-major axis', unit: 'AU', scale: 'linear', min: 0, max: 6, binCount: 60 },
+  { field: 'e', label: 'Eccentricity', unit: '', scale: 'linear', min: 0, max: 1, binCount: 50 },
+  { field: 'i', label: 'Inclination', unit: '°', scale: 'linear', min: 0, max: 60, binCount: 60 },
+  { field: 'H', label: 'Absolute magnitude', unit: 'mag', scale: 'linear', min: 0, max: 30, binCount: 60 },
+  { field: 'diameter', label: 'Diameter', unit: 'km', scale: 'log', min: -2, max: 3, binCount: 50 },
+];
+
+const RANGE_FIELDS: RangeField[] = ['a', 'e', 'i', 'H', 'diameter', 'moid', 'estimatedValue'];
+
+// Enrichment fills unknown values with defaults (0 for H and the elements,
+// 0 km, 999 AU MOID) and estimates sizes from H; keep those out of the
+// distributions and ranges
+function hasValue(asteroid: Asteroid, field: RangeField): boolean {
+  const value = asteroid[field];
+  if (!Number.isFinite(value)) return false;
+  if (field === 'diameter') return value > 0 && asteroid.diameterSource !== 'estimated';
+  if (field === 'moid') return value < 999;
+  if (field === 'estimatedValue') return true;
+  return value !== 0;
+}
+
+export function emptyStatistics(): CatalogStatistics {
+  return {
+    totalCount: 0,
+    totalValue: 0,
+    neoCount: 0,
+    phaCount: 0,
+    classes: {},
+    categories: {},
+    ranges: {},
+    histograms: {},
+    timestamp: 0,
+  };
+}
+
+function addToGroup(groups: Record<string, GroupTotals>, key: string, value: number): void {
+  const group = groups[key] ??= { count: 0, totalValue: 0 };
+  group.count++;
+  group.totalValue += value;
+}
+
+export class CatalogStatsBuilder {
+  private stats = emptyStatistics();
+  private histograms: Histogram[] = HISTOGRAM_SPECS.map(spec => ({
+    field: spec.field,
+    scale: spec.scale,
+    min: spec.min,
+    max: spec.max,
+    bins: new Array<number>(spec.binCount).fill(0),
+    underflow: 0,
+    overflow: 0,
+    missing: 0,
+  }));
+
+  add(asteroid: Asteroid): void {
+    const { stats } = this;
+    const value = asteroid.estimatedValue || 0;
+    stats.totalCount++;
+    stats.totalValue += value;
+    if (asteroid.neo) stats.neoCount++;
+    if (asteroid.pha) stats.phaCount++;
+    addToGroup(stats.classes, asteroid.class, value);
+    addToGroup(stats.categories, asteroid.category, value);
+
+    for (const field of RANGE_FIELDS) {
+      if (!hasValue(asteroid, field)) continue;
+      const fieldValue = asteroid[field];
+      const range = stats.ranges[field];
+      if (!range) {
+        stats.ranges[field] = { min: fieldValue, max: fieldValue };
+      } else {
+        if (fieldValue < range.min) range.min = fieldValue;
+        if (fieldValue > range.max) range.max = fieldValue;
+      }
+    }
+
+    for (const histogram of this.histograms) {
+      if (!hasValue(asteroid, histogram.field)) {
+        histogram.missing++;
+        continue;
+      }
+      const raw = asteroid[histogram.field];
+      const position = histogram.scale === 'log' ? Math.log10(raw) : raw;
+      const bin = Math.floor((position - histogram.min) / (histogram.max - histogram.min) * histogram.bins.length);
+      if (bin < 0) histogram.underflow++;
+      else if (bin >= histogram.bins.length) histogram.overflow++;
+      else histogram.bins[bin]++;
+    }
+  }
+
+  finish(): CatalogStatistics {
+    const histograms: CatalogStatistics['histograms'] = {};
+    for (const histogram of this.histograms) histograms[histogram.field] = histogram;
+    return { ...this.stats, histograms, timestamp: Date.now() };
+  }
+}
+
+// Lower and upper edge of a bin, in the field's own units
+export function binEdges(histogram: Histogram, bin: number): [number, number] {
+  const width = (histogram.max - histogram.min) / histogram.bins.length;
+  const low = histogram.min + bin * width;
+  const high = low + width;
+  return histogram.scale === 'log' ? [10 ** low, 10 ** high] : [low, high];
+}
@@ -0,0 +1,134 @@
+// Close approaches to Earth: the relative distance between a two-body orbit
+// and Earth's mean-element ephemeris is sampled with steps sized so no pass
+// below the search distance can fall between samples, then each local minimum
+// is refined by golden-section search. Times are Julian Dates (TDB), distances
+// AU. Earth is the Earth-Moon barycenter, about 4,700 km from Earth's center.
+
+import { type Asteroid } from './indexedDB';
+import { type ConicElements, conicPosition, timeSincePerihelion, orbitType } from './kepler';
+import { EPHEMERIDES, planetPosition } from './ephemeris';
+
+export const AU_KM = 149597870.7;
+export const LUNAR_DISTANCE_AU = 384400 / AU_KM;
+const MJD_TO_JD = 2400000.5;
+
+// Upper bound on Earth-relative speed for near-Earth orbits (AU/day, ~87 km/s).
+// Between samples the distance cannot shrink faster than this.
+const MAX_RELATIVE_SPEED = 0.05;
+const MIN_STEP = 0.05; // days
+const MAX_STEP = 20; // days
+const REFINE_TOLERANCE = 1e-6; // days, about 0.1 s
+const VELOCITY_STEP = 1e-3; // days, for the central difference
+// SBDB MOIDs are for Earth's osculating orbit at the element epoch; allow for drift
+export const MOID_MARGIN = 0.01;
+
+const GOLDEN = (Math.sqrt(5) - 1) / 2;
+
+export interface ApproachOrbit extends ConicElements {
+  tp: number; // Time of perihelion passage
+}
+
+export interface CloseApproach {
+  id: string;
+  name: string;
+  jd: number;
+  distance: number; // AU
+  velocity: number; // Earth-relative, km/s
+}
+
+// Two-body orbit of a catalog asteroid, or null when its elements cannot place
+// it. Elements without an epoch are taken as current at defaultEpoch if given.
+export function approachOrbit(asteroid: Asteroid, defaultEpoch?: number): ApproachOrbit | null {
+  const { e, i, om, w } = asteroid;
+  const q = asteroid.q || asteroid.a * (1 - e);
+  if (!(q > 0) || !(e >= 0)) return null;
+
+  let tp = asteroid.tp;
+  if (!tp) {
+    const epoch = asteroid.epoch || (asteroid.epoch_mjd ? asteroid.epoch_mjd + MJD_TO_JD : defaultEpoch);
+    if (!epoch || orbitType(e) === 'parabolic') return null;
+    tp = epoch - timeSincePerihelion(q, e, asteroid.ma || 0);
+  }
+  return { q, e, i, om, w, tp };
+}
+
+function relativePosition(orbit: ApproachOrbit, jd: number): { x: number; y: number; z: number } {
+  const body = conicPosition(orbit, jd - orbit.tp);
+  const earth = planetPosition(EPHEMERIDES.Earth, jd);
+  return { x: body.x - earth.x, y: body.y - earth.y, z: body.z - earth.z };
+}
+
+export function earthDistance(orbit: ApproachOrbit, jd: number): number {
+  const { x, y, z } = relativePosition(orbit, jd);
+  return Math.sqrt(x * x + y * y + z * z);
+}
+
+// Earth-relative speed in km/s
+export function relativeVelocity(orbit: ApproachOrbit, jd: number): number {
+  const before = relativePosition(orbit, jd - VELOCITY_STEP);
+  const after = relativePosition(orbit, jd + VELOCITY_STEP);
+  const dx = after.x - before.x;
+  const dy = after.y - before.y;
+  const dz = after.z - before.z;
+  return (Math.sqrt(dx * dx + dy * dy + dz * dz) / (2 * VELOCITY_STEP)) * AU_KM / 86400;
+}
+
+// Minimum of the distance inside [lo, hi]
+function refineMinimum(orbit: ApproachOrbit, lo: number, hi: number): { jd: number; distance: number } {
+  let x1 = hi - GOLDEN * (hi - lo);
+  let x2 = lo + GOLDEN * (hi - lo);
+  let d1 = earthDistance(orbit, x1);
+  let d2 = earthDistance(orbit, x2);
+  while (hi - lo > REFINE_TOLERANCE) {
+    if (d1 < d2) {
+      hi = x2;
+      x2 = x1;
+      d2 = d1;
+      x1 = hi - GOLDEN * (hi - lo);
+      d1 = earthDistance(orbit, x1);
+    } else {
+      lo = x1;
+      x1 = x2;
+      d1 = d2;
+      x2 = lo + GOLDEN * (hi - lo);
+      d2 = earthDistance(orbit, x2);
+    }
+  }
+  const jd = (lo + hi) / 2;
+  return { jd, distance: earthDistance(orbit, jd) };
+}
+
+// Every pass within maxDistance of Earth between two dates. Minima at the
+// ends of the range are not reported since they may continue outside it.
+export function findApproaches(
+  orbit: ApproachOrbit,
+  startJD: number,
+  endJD: number,
+  maxDistance: number
+): Array<{ jd: number; distance: number; velocity: number }> {
+  const approaches: Array<{ jd: number; distance: number; velocity: number }> = [];
+  let previousJD = startJD;
+  let previous = Infinity;
+  let jd = startJD;
+  let distance = earthDistance(orbit, jd);
+
+  while (jd < endJD) {
+    const step = Math.min(MAX_STEP, Math.max(MIN_STEP, (distance - maxDistance) / MAX_RELATIVE_SPEED));
+    const nextJD = Math.min(jd + step, endJD);
+    const next = earthDistance(orbit, nextJD);
+
+    if (distance < previous && distance <= next && distance < maxDistance + MAX_RELATIVE_SPEED * MIN_STEP) {
+      const minimum = refineMinimum(orbit, previousJD, nextJD);
+      if (minimum.distance <= maxDistance && minimum.jd - startJD > REFINE_TOLERANCE) {
+        approaches.push({ ...minimum, velocity: relativeVelocity(orbit, minimum.jd) });
+      }
+    }
+
+    previousJD = jd;
+    previous = distance;
+    jd = nextJD;
+    distance = next;
+  }
+
+  return approaches;
+}
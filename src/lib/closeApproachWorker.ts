@@ -0,0 +1,53 @@
+import { getAsteroidsWithinMoid } from './indexedDB';
+import { type CloseApproach, MOID_MARGIN, approachOrbit, findApproaches } from './closeApproach';
+
+// Messages exchanged with searchCloseApproaches on the main thread
+export interface CloseApproachRequest {
+  startJD: number;
+  endJD: number;
+  maxDistance: number; // AU
+}
+
+export type CloseApproachResponse =
+  | { type: 'progress'; current: number; total: number }
+  | { type: 'done'; approaches: CloseApproach[] }
+  | { type: 'error'; message: string };
+
+const PROGRESS_INTERVAL_MS = 100;
+
+function post(message: CloseApproachResponse): void {
+  self.postMessage(message);
+}
+
+// Only orbits that come within the search distance of Earth's orbit can bring
+// the asteroid that close to Earth, so the MOID index prunes the catalog first
+async function search({ startJD, endJD, maxDistance }: CloseApproachRequest): Promise<CloseApproach[]> {
+  const candidates = await getAsteroidsWithinMoid(maxDistance + MOID_MARGIN);
+  const approaches: CloseApproach[] = [];
+  let lastProgress = 0;
+
+  candidates.forEach((asteroid, index) => {
+    const orbit = approachOrbit(asteroid);
+    if (orbit) {
+      for (const approach of findApproaches(orbit, startJD, endJD, maxDistance)) {
+        approaches.push({ id: asteroid.id, name: asteroid.full_name?.trim() || asteroid.name || asteroid.pdes, ...approach });
+      }
+    }
+
+    const now = performance.now();
+    if (now - lastProgress > PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      post({ type: 'progress', current: index + 1, total: candidates.length });
+    }
+  });
+
+  return approaches.sort((a, b) => a.jd - b.jd);
+}
+
+self.onmessage = async (event: MessageEvent<CloseApproachRequest>) => {
+  try {
+    post({ type: 'done', approaches: await search(event.data) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,161 @@
+import {
+  type Asteroid,
+  getAsteroidById,
+  getUserAsteroid,
+  storeColumnCache,
+  getColumnCacheManifest,
+  getColumnBuffer,
+} from './indexedDB';
+
+// Struct-of-arrays copy of the fields the 3D scene needs, one entry per
+// asteroid in primary-key order. Loading a dozen ArrayBuffers is far cheaper
+// than structured-cloning ~1M objects, and full records are fetched by id on demand.
+
+// Orbital elements keep double precision; photometric values fit in float32
+const FLOAT64_COLUMNS = ['a', 'e', 'i', 'om', 'w', 'ma', 'epoch_mjd'] as const;
+const FLOAT32_COLUMNS = ['H', 'diameter', 'albedo'] as const;
+
+type Float64Column = typeof FLOAT64_COLUMNS[number];
+type Float32Column = typeof FLOAT32_COLUMNS[number];
+
+export const FLAG_NEO = 1;
+export const FLAG_PHA = 2;
+
+export type AsteroidColumns = {
+  count: number;
+  ids: string[];
+  flags: Uint8Array;
+  catalogId?: string; // Imported catalog the rows come from; absent for the main catalog
+} & Record<Float64Column, Float64Array> & Record<Float32Column, Float32Array>;
+
+function allocateColumns(count: number): AsteroidColumns {
+  const columns = { count, ids: new Array<string>(count), flags: new Uint8Array(count) } as AsteroidColumns;
+  for (const name of FLOAT64_COLUMNS) columns[name] = new Float64Array(count);
+  for (const name of FLOAT32_COLUMNS) columns[name] = new Float32Array(count);
+  return columns;
+}
+
+function writeRow(columns: AsteroidColumns, index: number, asteroid: Asteroid): void {
+  columns.ids[index] = asteroid.id;
+  for (const name of FLOAT64_COLUMNS) columns[name][index] = asteroid[name] || 0;
+  for (const name of FLOAT32_COLUMNS) columns[name][index] = asteroid[name] || 0;
+  columns.flags[index] = (asteroid.neo ? FLAG_NEO : 0) | (asteroid.pha ? FLAG_PHA : 0);
+}
+
+// Copy only the first `count` elements when the store shrank during the build
+function columnBuffer(array: Float64Array | Float32Array | Uint8Array, count: number): ArrayBuffer {
+  return (count === array.length ? array : array.slice(0, count)).buffer as ArrayBuffer;
+}
+
+// Ids never contain newlines, so one UTF-8 blob joined by '\n' is enough
+function encodeIds(ids: string[]): ArrayBuffer {
+  return new TextEncoder().encode(ids.join('\n')).buffer as ArrayBuffer;
+}
+
+function decodeIds(buffer: ArrayBuffer, count: number): string[] {
+  if (count === 0) return [];
+  return new TextDecoder().decode(buffer).split('\n');
+}
+
+// Accumulates rows in primary-key order during the ingest worker's cache pass
+export class AsteroidColumnsBuilder {
+  private columns: AsteroidColumns;
+  private count = 0;
+
+  constructor(capacity: number) {
+    this.columns = allocateColumns(capacity);
+  }
+
+  add(asteroid: Asteroid): void {
+    if (this.count >= this.columns.count) return;
+    writeRow(this.columns, this.count++, asteroid);
+  }
+
+  async finish(): Promise<number> {
+    const { columns, count } = this;
+    const buffers: Record<string, ArrayBuffer> = {
+      ids: encodeIds(count === columns.count ? columns.ids : columns.ids.slice(0, count)),
+      flags: columnBuffer(columns.flags, count),
+    };
+    for (const name of [...FLOAT64_COLUMNS, ...FLOAT32_COLUMNS]) {
+      buffers[name] = columnBuffer(columns[name], count);
+    }
+
+    await storeColumnCache(count, buffers);
+    return count;
+  }
+}
+
+// Columns for an imported catalog, which is small enough to build in memory
+export function columnsFromAsteroids(asteroids: Asteroid[], catalogId: string): AsteroidColumns {
+  const columns = allocateColumns(asteroids.length);
+  columns.catalogId = catalogId;
+  asteroids.forEach((asteroid, index) => writeRow(columns, index, asteroid));
+  return columns;
+}
+
+export async function hasAsteroidColumns(): Promise<boolean> {
+  return (await getColumnCacheManifest()) !== null;
+}
+
+// Read every column buffer, reporting progress in bytes. Returns null when the
+// cache is missing or incomplete and has to be rebuilt.
+async function readAsteroidColumns(
+  onProgress?: (loadedBytes: number, totalBytes: number) => void
+): Promise<AsteroidColumns | null> {
+  const manifest = await getColumnCacheManifest();
+  if (!manifest) return null;
+
+  const { count } = manifest;
+  const columns = { count } as AsteroidColumns;
+  let loadedBytes = 0;
+  onProgress?.(0, manifest.byteLength);
+
+  for (const name of manifest.columns) {
+    const buffer = await getColumnBuffer(name);
+    if (!buffer) return null;
+
+    if (name === 'ids') {
+      columns.ids = decodeIds(buffer, count);
+    } else if (name === 'flags') {
+      columns.flags = new Uint8Array(buffer);
+    } else if ((FLOAT64_COLUMNS as readonly string[]).includes(name)) {
+      columns[name as Float64Column] = new Float64Array(buffer);
+    } else if ((FLOAT32_COLUMNS as readonly string[]).includes(name)) {
+      columns[name as Float32Column] = new Float32Array(buffer);
+    }
+
+    loadedBytes += buffer.byteLength;
+    onProgress?.(loadedBytes, manifest.byteLength);
+  }
+
+  const complete = columns.ids?.length === count && columns.flags?.length === count
+    && [...FLOAT64_COLUMNS, ...FLOAT32_COLUMNS].every(name => columns[name]?.length === count);
+  return complete ? columns : null;
+}
+
+// Columns are loaded once per page; the scene and any later caller share them
+let loadedColumns: Promise<AsteroidColumns | null> | null = null;
+
+export function loadAsteroidColumns(
+  onProgress?: (loadedBytes: number, totalBytes: number) => void
+): Promise<AsteroidColumns | null> {
+  loadedColumns = readAsteroidColumns(onProgress);
+  return loadedColumns;
+}
+
+export function getAsteroidColumns(): Promise<AsteroidColumns | null> {
+  return loadedColumns ?? loadAsteroidColumns();
+}
+
+// Drop the in-memory copy after the worker rebuilt the cache
+export function invalidateAsteroidColumns(): void {
+  loadedColumns = null;
+}
+
+// Fetch the full record behind a column index
+export async function getAsteroidAtIndex(columns: AsteroidColumns, index: number): Promise<Asteroid | undefined> {
+  const id = columns.ids[index];
+  if (id === undefined) return undefined;
+  return columns.catalogId ? await getUserAsteroid(columns.catalogId, id) : await getAsteroidById(id);
+}
@@ -0,0 +1,104 @@
+import { type Asteroid, type Comet } from './indexedDB';
+import { type OrbitType, conicPosition, orbitType, semiMajorAxis, timeSincePerihelion, meanMotion } from './kepler';
+
+// Comets arrive mixed in with asteroids in SBDB exports. The ingest worker
+// splits them off by designation and stores them through toComet().
+
+// Source rows carry comet-only columns that the asteroid type does not declare
+export type CometFields = Partial<Asteroid> & Partial<Pick<Comet, 'prefix' | 'M1' | 'K1' | 'M2' | 'K2'>>;
+
+const COMET_PREFIXES = new Set(['P', 'C', 'D', 'X', 'I']);
+
+// "1P", "273P-B", "C/2020 F3", "P/2019 LD2"
+const COMET_DESIGNATION = /^(\d+[PDI](-[A-Z]+)?|[PCDXI]\/.+)$/;
+
+export const COMET_CATEGORIES = [
+  'Jupiter-family Comet',
+  'Halley-type Comet',
+  'Long-period Comet',
+  'Hyperbolic Comet',
+  'Interstellar Object',
+];
+
+export function isCometRow(fields: CometFields): boolean {
+  const prefix = (fields.prefix || '').trim().toUpperCase();
+  if (COMET_PREFIXES.has(prefix)) return true;
+  return COMET_DESIGNATION.test((fields.pdes || '').trim());
+}
+
+// Conventional split by orbital period: under 20 years, 20-200 years, longer
+export function classifyComet(comet: Pick<Comet, 'prefix' | 'q' | 'e'>): string {
+  if (comet.prefix === 'I') return 'Interstellar Object';
+  const type = orbitType(comet.e);
+  if (type === 'hyperbolic') return 'Hyperbolic Comet';
+  if (type === 'parabolic') return 'Long-period Comet';
+
+  const period = Math.pow(semiMajorAxis(comet.q, comet.e), 1.5);
+  if (period < 20) return 'Jupiter-family Comet';
+  if (period < 200) return 'Halley-type Comet';
+  return 'Long-period Comet';
+}
+
+// Build a comet record, or explain why the row cannot be placed
+export function toComet(fields: CometFields): Comet | string {
+  const { e } = fields;
+  const q = fields.q || (fields.a && e !== undefined ? fields.a * (1 - e) : undefined);
+  if (e === undefined || isNaN(e) || e < 0) return 'Comet has no eccentricity';
+  if (!q || q <= 0) return 'Comet has no perihelion distance';
+
+  // Without tp the perihelion time follows from the mean anomaly at the epoch
+  let tp = fields.tp;
+  if (!tp && fields.ma !== undefined && fields.epoch && orbitType(e) !== 'parabolic') {
+    tp = fields.epoch - timeSincePerihelion(q, e, fields.ma);
+  }
+  if (!tp) return 'Comet has no perihelion time';
+
+  const prefix = (fields.prefix || (fields.pdes || '').match(/^\d*([PCDXI])/)?.[1] || '').toUpperCase();
+  const comet: Comet = {
+    id: fields.id as string,
+    spkid: fields.spkid || 0,
+    full_name: fields.full_name || '',
+    pdes: fields.pdes || '',
+    name: fields.name || '',
+    prefix,
+    q,
+    e,
+    i: fields.i || 0,
+    om: fields.om || 0,
+    w: fields.w || 0,
+    tp,
+    epoch: fields.epoch || tp,
+    M1: fields.M1,
+    K1: fields.K1,
+    M2: fields.M2,
+    K2: fields.K2,
+    moid: fields.moid || 999,
+    class: fields.class || 'COM',
+    category: '',
+  };
+
+  if (orbitType(e) === 'elliptic') {
+    comet.a = semiMajorAxis(q, e);
+    comet.per_y = (2 * Math.PI) / meanMotion(q, e)! / 365.25;
+  }
+  comet.category = classifyComet(comet);
+  return comet;
+}
+
+export function cometOrbitType(comet: Comet): OrbitType {
+  return orbitType(comet.e);
+}
+
+// Heliocentric ecliptic position (AU) at a Julian Date
+export function cometPositionAt(comet: Comet, jd: number): { x: number; y: number; z: number } {
+  return conicPosition(comet, jd - comet.tp);
+}
+
+// Apparent magnitude from the nuclear parameters, falling back to the total
+// (coma) ones; undefined when the source gave neither
+export function cometMagnitude(comet: Comet, sunDistance: number, earthDistance: number): number | undefined {
+  const M = comet.M2 ?? comet.M1;
+  const K = comet.M2 !== undefined ? comet.K2 : comet.K1;
+  if (M === undefined) return undefined;
+  return M + 5 * Math.log10(earthDistance) + (K ?? 10) * Math.log10(sunDistance);
+}
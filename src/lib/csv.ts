@@ -0,0 +1,130 @@
+// Streaming RFC 4180 CSV reader.
+// Handles quoted fields, escaped quotes (""), delimiters and line breaks inside
+// quotes, and CRLF/LF line endings. Text can be pushed in arbitrary chunks.
+
+export interface CsvRecord {
+  fields: string[];
+  line: number; // 1-based physical line the record starts on
+  error?: string; // Set when the record is malformed
+}
+
+export class CsvReader {
+  private delimiter: string;
+
+  private field = '';
+  private fields: string[] = [];
+  private inQuotes = false;
+  private wasQuoted = false;
+  private pendingQuote = false; // Saw '"' inside quotes: either an escape or the closing quote
+  private error: string | undefined;
+
+  private line = 1;
+  private recordLine = 1;
+
+  constructor(delimiter: string = ',') {
+    this.delimiter = delimiter;
+  }
+
+  // Feed the next chunk of text; returns every record completed by it
+  push(text: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.inQuotes) {
+        if (this.pendingQuote) {
+          this.pendingQuote = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          // Previous quote closed the field; handle this char as unquoted
+          this.inQuotes = false;
+        } else if (char === '"') {
+          this.pendingQuote = true;
+          continue;
+        } else {
+          if (char === '\n') this.line++;
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n') {
+        this.endField();
+        this.line++;
+        this.endRecord(records);
+      } else if (char === '\r') {
+        // Part of a CRLF line ending
+        continue;
+      } else if (char === '"') {
+        if (this.field.trim() === '' && !this.wasQuoted) {
+          this.field = '';
+          this.inQuotes = true;
+          this.wasQuoted = true;
+        } else {
+          this.fail('Unexpected quote in unquoted field');
+          this.field += char;
+        }
+      } else if (this.wasQuoted) {
+        // Only padding may follow a closing quote
+        if (char !== ' ' && char !== '\t') {
+          this.fail('Unexpected character after closing quote');
+          this.field += char;
+        }
+      } else {
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  // Flush the final record once the input is exhausted
+  end(): CsvRecord[] {
+    const records: CsvRecord[] = [];
+
+    if (this.inQuotes && !this.pendingQuote) {
+      this.fail('Unterminated quoted field');
+    }
+    this.inQuotes = false;
+    this.pendingQuote = false;
+
+    if (this.fields.length > 0 || this.field !== '' || this.wasQuoted) {
+      this.endField();
+      this.endRecord(records);
+    }
+
+    return records;
+  }
+
+  private fail(reason: string): void {
+    if (!this.error) this.error = reason;
+  }
+
+  private endField(): void {
+    this.fields.push(this.wasQuoted ? this.field : this.field.trim());
+    this.field = '';
+    this.wasQuoted = false;
+  }
+
+  private endRecord(records: CsvRecord[]): void {
+    const isBlank = this.fields.length === 1 && this.fields[0] === '' && !this.error;
+
+    if (!isBlank) {
+      records.push({ fields: this.fields, line: this.recordLine, error: this.error });
+    }
+
+    this.fields = [];
+    this.error = undefined;
+    this.recordLine = this.line;
+  }
+}
+
+// Normalize a header cell so files with a BOM or stray whitespace still match
+export function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, '').trim();
+}
@@ -1,195 +1,81 @@
-import { type Asteroid, storeAsteroids, markDataLoaded, isDataCached, getCachedCount, streamAsteroidsFromCache, getPartialLoadProgress, updatePartialLoadProgress } from './indexedDB';
+import { type CatalogChanges, isDataCached, getCachedCount, hasSearchIndex, hasStatistics, getDatasetInfo } from './indexedDB';
+import { type IngestMode, type IngestRequest, type IngestResponse } from './ingestWorker';
+import { type ColumnMapping } from './importers';
+import { hasAsteroidColumns, loadAsteroidColumns, invalidateAsteroidColumns } from './columnarCache';
+import { invalidateSearchIndex } from './searchIndex';
+import { type PriceTable } from './valuation';
+import { datasetVersion } from './datasetSource';
+import { type CloseApproach } from './closeApproach';
+import { type CloseApproachRequest, type CloseApproachResponse } from './closeApproachWorker';
 
-// Asteroid classification based on orbital parameters
-function classifyAsteroid(asteroid: Partial<Asteroid>): string {
-  const { a = 0, e = 0, q = 0, neo, pha } = asteroid;
-  
-  if (pha) return 'Potentially Hazardous';
-  if (neo) return 'Near-Earth Object';
-  
-  // Main belt classifications
-  if (a >= 2.0 && a <= 3.3 && e < 0.3) {
-    if (a < 2.5) return 'Inner Main Belt';
-    if (a < 2.82) return 'Middle Main Belt';
-    return 'Outer Main Belt';
-  }
-  
-  // Trojans (Jupiter)
-  if (a >= 5.05 && a <= 5.4) return 'Jupiter Trojan';
-  
-  // Kuiper Belt
-  if (a >= 30 && a <= 50) return 'Kuiper Belt Object';
-  
-  // Trans-Neptunian
-  if (a > 30) return 'Trans-Neptunian Object';
-  
-  // Hildas
-  if (a >= 3.7 && a <= 4.2 && e < 0.3) return 'Hilda Asteroid';
-  
-  // Apollo, Amor, Aten based on orbital elements
-  if (q < 1.017 && a >= 1.0) return 'Apollo Asteroid';
-  if (q >= 1.017 && q <= 1.3 && a > 1.0) return 'Amor Asteroid';
-  if (a < 1.0) return 'Aten Asteroid';
-  
-  return 'Unknown';
+export interface LoadProgress {
+  phase: 'checking' | 'downloading' | 'parsing' | 'storing' | 'loading-cache' | 'complete';
+  current: number;
+  total: number;
+  message: string;
 }
 
-// Estimate asteroid color based on albedo and class
-function getAsteroidColor(asteroid: Partial<Asteroid>): string {
-  const albedo = asteroid.albedo || 0.1;
-  const className = asteroid.class || '';
-  
-  // C-type (carbonaceous) - dark
-  if (className.startsWith('C') || albedo < 0.1) {
-    return '#4a4a4a';
-  }
-  
-  // S-type (silicaceous) - rocky/reddish
-  if (className.startsWith('S') || (albedo >= 0.1 && albedo < 0.25)) {
-    return '#8b7355';
-  }
-  
-  // M-type (metallic) - bright/metallic
-  if (className.startsWith('M') || albedo >= 0.25) {
-    return '#a8a8a8';
-  }
-  
-  // Based on albedo gradient
-  if (albedo < 0.05) return '#2d2d2d';
-  if (albedo < 0.15) return '#5a5a5a';
-  if (albedo < 0.3) return '#888888';
-  return '#b0b0b0';
-}
+// Catalog to ingest. Any supported format works (SBDB/Kaggle CSV, MPCORB.DAT,
+// SBDB JSON); the worker sniffs the format from the first few KB.
+const DATASET_URL: string = import.meta.env.VITE_DATASET_URL || '/data/dataset.csv';
 
-// Estimate mining difficulty based on orbital parameters
-function getMiningDifficulty(asteroid: Partial<Asteroid>): string {
-  const { a = 0, e = 0, i = 0, moid = 999 } = asteroid;
-  
-  // Delta-v approximation (simplified)
-  const deltaV = Math.abs(a - 1) * 5 + e * 3 + (i / 10) * 2;
-  
-  if (deltaV < 3 && moid < 0.1) return 'Easy';
-  if (deltaV < 5 && moid < 0.3) return 'Moderate';
-  if (deltaV < 8) return 'Difficult';
-  if (deltaV < 12) return 'Very Difficult';
-  return 'Extreme';
-}
+// Run a request in the ingest Web Worker so the main thread stays responsive
+// and the raw CSV is never held in memory at once
+function runIngestWorker(
+  request: IngestRequest,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<{ count: number; changes?: CatalogChanges }> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./ingestWorker.ts', import.meta.url), { type: 'module' });
 
-// Estimate asteroid value based on size, composition, and accessibility
-function estimateValue(asteroid: Partial<Asteroid>): number {
-  const diameter = asteroid.diameter || 0;
-  const albedo = asteroid.albedo || 0.1;
-  const className = asteroid.class || '';
-  
-  // No diameter = no reliable estimate
-  if (diameter <= 0) {
-    // Estimate from absolute magnitude if available
-    const H = asteroid.H || 20;
-    const estimatedDiameter = 1329 / Math.sqrt(albedo || 0.1) * Math.pow(10, -0.2 * H);
-    return estimateValueFromDiameter(estimatedDiameter, albedo, className);
-  }
-  
-  return estimateValueFromDiameter(diameter, albedo, className);
-}
+    worker.onmessage = (event: MessageEvent<IngestResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          worker.terminate();
+          resolve({ count: message.count, changes: message.changes });
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
 
-function estimateValueFromDiameter(diameter: number, albedo: number, className: string): number {
-  // Volume in km³
-  const radius = diameter / 2;
-  const volume = (4 / 3) * Math.PI * Math.pow(radius, 3);
-  
-  // Mass estimation (density varies by type)
-  let density = 2.5; // g/cm³ default (rocky)
-  
-  if (className.startsWith('C') || albedo < 0.1) {
-    density = 1.5; // Carbonaceous - water, organics
-  } else if (className.startsWith('M') || albedo > 0.25) {
-    density = 5.0; // Metallic - iron, nickel, platinum
-  } else if (className.startsWith('S')) {
-    density = 2.7; // Silicaceous - rocky
-  }
-  
-  // Mass in kg (volume in km³ to m³, density g/cm³ to kg/m³)
-  const massKg = volume * 1e9 * density * 1000;
-  
-  // Value per kg based on composition with more variance
-  // Add randomness based on diameter to create natural variation
-  const varianceFactor = 0.5 + (diameter % 10) / 10; // 0.5-1.5x variance
-  
-  let valuePerKg = 0.0001 * varianceFactor; // Default: rocky material, low value
-  
-  if (className.startsWith('M') || albedo > 0.25) {
-    // Metallic asteroids: iron, nickel, platinum group metals
-    valuePerKg = 0.1 * varianceFactor; // $/kg for precious metals content
-  } else if (className.startsWith('C') || albedo < 0.1) {
-    // Carbonaceous: water, organics (valuable for space resources)
-    valuePerKg = 0.01 * varianceFactor; // $/kg for volatiles
-  } else {
-    // S-type: silicates, some metals
-    valuePerKg = 0.005 * varianceFactor;
-  }
-  
-  // Calculate base value
-  let value = massKg * valuePerKg;
-  
-  // Scale down to realistic range (millions to trillions, not quadrillions)
-  // Small asteroids: millions, Large asteroids: billions/trillions
-  value = value * 0.0000001;
-  
-  // Ensure minimum value for small asteroids
-  if (value < 1000000) {
-    value = Math.max(100000, value * 100); // At least $100K
-  }
-  
-  return Math.round(value);
-}
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Ingest worker failed'));
+    };
 
-// Parse a single CSV row
-function parseRow(row: string, headers: string[]): Partial<Asteroid> | null {
-  const values: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < row.length; i++) {
-    const char = row[i];
-    
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      values.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  values.push(current.trim());
-  
-  if (values.length < headers.length) return null;
-  
-  const obj: Record<string, unknown> = {};
-  headers.forEach((header, i) => {
-    const value = values[i];
-    
-    if (header === 'neo' || header === 'pha') {
-      // Parse case-insensitively for Y/N flags
-      obj[header] = value?.toUpperCase() === 'Y';
-    } else if (['spkid', 'H', 'diameter', 'albedo', 'diameter_sigma', 'epoch', 'epoch_mjd',
-                'e', 'a', 'q', 'i', 'om', 'w', 'ma', 'ad', 'n', 'tp', 'per', 'per_y',
-                'moid', 'moid_ld', 'rms'].includes(header)) {
-      const num = parseFloat(value);
-      obj[header] = isNaN(num) ? 0 : num;
-    } else {
-      obj[header] = value;
-    }
+    worker.postMessage(request);
   });
-  
-  return obj as Partial<Asteroid>;
 }
 
-export interface LoadProgress {
-  phase: 'checking' | 'downloading' | 'parsing' | 'storing' | 'loading-cache' | 'complete';
-  current: number;
-  total: number;
-  message: string;
+// Stream download/parse/store pipeline; the worker also rebuilds the columnar cache
+async function ingestInWorker(
+  url: string,
+  mode: IngestMode,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<{ count: number; changes: CatalogChanges }> {
+  const { count, changes } = await runIngestWorker({ type: 'start', url, mode }, onProgress);
+  return { count, changes: changes ?? { added: count, updated: 0, unchanged: 0, removed: 0 } };
+}
+
+// Load the columnar cache into memory with byte-accurate progress
+async function loadColumnsWithProgress(onProgress?: (progress: LoadProgress) => void): Promise<number> {
+  const columns = await loadAsteroidColumns((loadedBytes, totalBytes) => {
+    onProgress?.({
+      phase: 'loading-cache',
+      current: loadedBytes,
+      total: totalBytes,
+      message: `Loading asteroids from cache... ${(loadedBytes / 1024 / 1024).toFixed(1)} / ${(totalBytes / 1024 / 1024).toFixed(1)} MB`
+    });
+  });
+  if (!columns) throw new Error('Columnar asteroid cache is missing or incomplete');
+  return columns.count;
 }
 
 export async function loadAsteroidData(
@@ -199,214 +85,123 @@ export async function loadAsteroidData(
   onProgress?.({ phase: 'checking', current: 0, total: 100, message: 'Checking cache...' });
   
   // Check if data is fully loaded
-  if (await isDataCached()) {
-    const count = await getCachedCount();
-    if (count > 0) {
-      // Stream from cache with progress
-      onProgress?.({ phase: 'loading-cache', current: 0, total: count, message: 'Loading asteroids from cache...' });
-      
-      await streamAsteroidsFromCache((loaded, total) => {
-        onProgress?.({
-          phase: 'loading-cache',
-          current: loaded,
-          total: total,
-          message: `Loading ${loaded.toLocaleString()} / ${total.toLocaleString()} asteroids from cache...`
-        });
-      });
-      
-      onProgress?.({ phase: 'complete', current: 100, total: 100, message: `Loaded ${count.toLocaleString()} asteroids` });
-      return count;
+  if (await isDataCached() && await getCachedCount() > 0) {
+    // Caches written before the columnar format, search index or statistics (or interrupted builds) are rebuilt once
+    if (!(await hasAsteroidColumns()) || !(await hasSearchIndex()) || !(await hasStatistics())) {
+      await runIngestWorker({ type: 'build-caches' }, onProgress);
     }
+  } else {
+    await ingestInWorker(DATASET_URL, 'full', onProgress);
   }
   
-  // Check for partial loading (interrupted download)
-  const partialProgress = await getPartialLoadProgress();
-  const alreadyStored = partialProgress.storedCount;
-  
-  if (alreadyStored > 0 && !partialProgress.isComplete) {
-    onProgress?.({ 
-      phase: 'checking', 
-      current: 50, 
-      total: 100, 
-      message: `Found ${alreadyStored.toLocaleString()} partially stored asteroids, resuming...` 
-    });
-  }
-  
-  // Fetch the CSV file
-  onProgress?.({ phase: 'downloading', current: 0, total: 100, message: 'Downloading asteroid data...' });
-  
-  const response = await fetch('/data/dataset.csv');
-  if (!response.ok) {
-    throw new Error(`Failed to fetch dataset: ${response.statusText}`);
-  }
-  
-  const contentLength = response.headers.get('Content-Length');
-  const estimatedTotal = contentLength ? parseInt(contentLength, 10) : 0;
-  
-  const reader = response.body?.getReader();
-  if (!reader) throw new Error('Cannot read response body');
-  
-  const chunks: Uint8Array[] = [];
-  let received = 0;
-  
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-    
-    chunks.push(value);
-    received += value.length;
-    
-    // If no content-length, estimate based on typical file size
-    const displayTotal = estimatedTotal > 0 ? estimatedTotal : Math.max(received * 1.1, 138 * 1024 * 1024);
-    
-    onProgress?.({
-      phase: 'downloading',
-      current: received,
-      total: displayTotal,
-      message: `Downloading... ${(received / 1024 / 1024).toFixed(1)} MB${estimatedTotal > 0 ? ` / ${(estimatedTotal / 1024 / 1024).toFixed(1)} MB` : ''}`
-    });
-  }
+  const count = await loadColumnsWithProgress(onProgress);
   
-  // Download complete - update to show 100%
   onProgress?.({
-    phase: 'downloading',
-    current: 100,
-    total: 100,
-    message: `Downloaded ${(received / 1024 / 1024).toFixed(1)} MB`
+    phase: 'complete',
+    current: count,
+    total: count,
+    message: `Loaded ${count.toLocaleString()} asteroids`
   });
   
-  // Wait for the CSS transition to complete (300ms) before changing phase
-  await new Promise(resolve => setTimeout(resolve, 400));
-  
-  // Combine chunks
-  onProgress?.({ phase: 'parsing', current: 0, total: 100, message: 'Preparing data...' });
-  await new Promise(resolve => setTimeout(resolve, 50));
-  
-  const allChunks = new Uint8Array(received);
-  let position = 0;
-  for (const chunk of chunks) {
-    allChunks.set(chunk, position);
-    position += chunk.length;
+  return count;
+}
+
+// Re-read the dataset and apply only what changed: upsert new or modified
+// orbits and drop objects that are no longer in the catalog
+export async function updateAsteroidData(
+  onProgress?: (progress: LoadProgress) => void
+): Promise<CatalogChanges> {
+  const { changes } = await ingestInWorker(DATASET_URL, 'update', onProgress);
+  // The worker rebuilt the columnar cache and search index; the next reads pick them up
+  invalidateAsteroidColumns();
+  invalidateSearchIndex();
+  return changes;
+}
+
+// Ask the server whether the dataset differs from the stored one, without
+// downloading it. Offline, or with no usable headers, the answer is no.
+export async function checkForDatasetUpdate(): Promise<boolean> {
+  const { version } = await getDatasetInfo();
+  if (!version) return false;
+  try {
+    const response = await fetch(DATASET_URL, { method: 'HEAD', cache: 'no-store' });
+    if (!response.ok) return false;
+    const latest = datasetVersion(response.headers);
+    return latest !== null && latest !== version;
+  } catch {
+    return false;
   }
-  
-  const csvText = new TextDecoder().decode(allChunks);
-  
-  // Parse CSV
-  onProgress?.({ phase: 'parsing', current: 0, total: 100, message: 'Parsing asteroid data...' });
-  await new Promise(resolve => setTimeout(resolve, 10));
-  
-  const lines = csvText.split('\n');
-  const headers = lines[0].split(',').map(h => h.trim());
-  
-  const asteroids: Asteroid[] = [];
-  const batchSize = 10000;
-  let batch: Asteroid[] = [];
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const parsed = parseRow(line, headers);
-    if (!parsed || !parsed.id) continue;
-    
-    // Enrich with computed values
-    const asteroid: Asteroid = {
-      ...parsed,
-      id: parsed.id as string,
-      spkid: parsed.spkid as number || 0,
-      full_name: parsed.full_name as string || '',
-      pdes: parsed.pdes as string || '',
-      name: parsed.name as string || '',
-      neo: parsed.neo as boolean || false,
-      pha: parsed.pha as boolean || false,
-      H: parsed.H as number || 0,
-      diameter: parsed.diameter as number || 0,
-      albedo: parsed.albedo as number || 0.1,
-      diameter_sigma: parsed.diameter_sigma as number || 0,
-      orbit_id: parsed.orbit_id as string || '',
-      epoch: parsed.epoch as number || 0,
-      epoch_mjd: parsed.epoch_mjd as number || 0,
-      e: parsed.e as number || 0,
-      a: parsed.a as number || 0,
-      q: parsed.q as number || 0,
-      i: parsed.i as number || 0,
-      om: parsed.om as number || 0,
-      w: parsed.w as number || 0,
-      ma: parsed.ma as number || 0,
-      ad: parsed.ad as number || 0,
-      n: parsed.n as number || 0,
-      tp: parsed.tp as number || 0,
-      per: parsed.per as number || 0,
-      per_y: parsed.per_y as number || 0,
-      moid: parsed.moid as number || 999,
-      moid_ld: parsed.moid_ld as number || 0,
-      class: parsed.class as string || 'MBA',
-      rms: parsed.rms as number || 0,
-      category: classifyAsteroid(parsed),
-      color: getAsteroidColor(parsed),
-      estimatedValue: estimateValue(parsed),
-      miningDifficulty: getMiningDifficulty(parsed),
+}
+
+// Store new commodity prices and recompute every cached estimatedValue with them
+export async function revalueAsteroids(
+  prices: PriceTable,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<number> {
+  const { count } = await runIngestWorker({ type: 'revalue', prices }, onProgress);
+  invalidateAsteroidColumns();
+  invalidateSearchIndex();
+  return count;
+}
+
+// Import a local CSV/TSV into a new named user catalog; the main catalog is untouched
+export async function importCatalogFile(
+  file: File,
+  options: { catalogName: string; delimiter: string; mapping: ColumnMapping },
+  onProgress?: (progress: LoadProgress) => void
+): Promise<number> {
+  const { count } = await runIngestWorker({ type: 'import-file', file, ...options }, onProgress);
+  return count;
+}
+
+// Search the catalog for passes near Earth in a worker; a wide date range
+// propagates thousands of orbits
+export function searchCloseApproaches(
+  request: CloseApproachRequest,
+  onProgress?: (current: number, total: number) => void
+): Promise<CloseApproach[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./closeApproachWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<CloseApproachResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.current, message.total);
+          break;
+        case 'done':
+          worker.terminate();
+          resolve(message.approaches);
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
     };
-    
-    batch.push(asteroid);
-    
-    if (batch.length >= batchSize) {
-      onProgress?.({
-        phase: 'parsing',
-        current: i,
-        total: lines.length,
-        message: `Parsing... ${i.toLocaleString()} / ${lines.length.toLocaleString()}`
-      });
-      
-      asteroids.push(...batch);
-      batch = [];
-    }
-  }
-  
-  if (batch.length > 0) {
-    asteroids.push(...batch);
-  }
-  
-  // Store in IndexedDB (skip already stored asteroids on resume)
-  onProgress?.({ phase: 'storing', current: alreadyStored, total: asteroids.length, message: 'Storing in database...' });
-  
-  const storeBatchSize = 5000;
-  let storedSoFar = alreadyStored;
-  
-  // Start from where we left off (skip batches already stored)
-  const startIndex = alreadyStored > 0 ? Math.floor(alreadyStored / storeBatchSize) * storeBatchSize : 0;
-  
-  for (let i = startIndex; i < asteroids.length; i += storeBatchSize) {
-    const storeBatch = asteroids.slice(i, i + storeBatchSize);
-    await storeAsteroids(storeBatch);
-    
-    storedSoFar = Math.min(i + storeBatchSize, asteroids.length);
-    
-    // Update partial progress so we can resume if interrupted
-    await updatePartialLoadProgress(storedSoFar, asteroids.length);
-    
-    onProgress?.({
-      phase: 'storing',
-      current: storedSoFar,
-      total: asteroids.length,
-      message: `Storing... ${storedSoFar.toLocaleString()} / ${asteroids.length.toLocaleString()}`
-    });
-  }
-  
-  await markDataLoaded();
-  
-  onProgress?.({
-    phase: 'complete',
-    current: asteroids.length,
-    total: asteroids.length,
-    message: `Loaded ${asteroids.length.toLocaleString()} asteroids`
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Close-approach worker failed'));
+    };
+
+    worker.postMessage(request);
   });
-  
-  return asteroids.length;
+}
+
+// Human-readable summary, e.g. "1,204 orbits updated, 37 new objects"
+export function formatChangeSummary(changes: CatalogChanges): string {
+  const parts: string[] = [];
+  if (changes.updated > 0) parts.push(`${changes.updated.toLocaleString()} orbits updated`);
+  if (changes.added > 0) parts.push(`${changes.added.toLocaleString()} new objects`);
+  if (changes.removed > 0) parts.push(`${changes.removed.toLocaleString()} objects retired`);
+  return parts.length > 0 ? parts.join(', ') : 'Catalog is already up to date';
 }
 
 // Format large numbers as currency
 export function formatValue(value: number): string {
+  if (value >= 1e21) return `$${(value / 1e21).toFixed(2)} Sextillion`;
+  if (value >= 1e18) return `$${(value / 1e18).toFixed(2)} Quintillion`;
   if (value >= 1e15) return `$${(value / 1e15).toFixed(2)} Quadrillion`;
   if (value >= 1e12) return `$${(value / 1e12).toFixed(2)} Trillion`;
   if (value >= 1e9) return `$${(value / 1e9).toFixed(2)} Billion`;
@@ -417,6 +212,8 @@ export function formatValue(value: number): string {
 
 export function formatCompactValue(value: number): string {
   // More varied/realistic display with 2 decimal places
+  if (value >= 1e21) return `$${(value / 1e21).toFixed(2)} Sextillion`;
+  if (value >= 1e18) return `$${(value / 1e18).toFixed(2)} Quintillion`;
   if (value >= 1e15) return `$${(value / 1e15).toFixed(2)} Quadrillion`;
   if (value >= 1e12) return `$${(value / 1e12).toFixed(2)} Trillion`;
   if (value >= 1e9) return `$${(value / 1e9).toFixed(2)} Billion`;
@@ -424,3 +221,11 @@ export function formatCompactValue(value: number): string {
   if (value >= 1e3) return `$${(value / 1e3).toFixed(2)}K`;
   return `$${value.toLocaleString()}`;
 }
+
+// Mass in the largest sensible unit, e.g. "2.31e+9 t"
+export function formatMass(kg: number): string {
+  const tonnes = kg / 1000;
+  if (tonnes >= 1e6) return `${tonnes.toExponential(2)} t`;
+  if (tonnes >= 1) return `${Math.round(tonnes).toLocaleString()} t`;
+  return `${Math.round(kg).toLocaleString()} kg`;
+}
@@ -0,0 +1,63 @@
+// HTTP details of the dataset download, shared by the ingest worker and the
+// update check on the main thread: compression by file extension, the version
+// string a response identifies, and the validator used to resume with Range.
+
+export type DatasetCompression = 'gzip' | 'brotli';
+
+const COMPRESSED_EXTENSIONS: Record<string, DatasetCompression> = {
+  '.gz': 'gzip',
+  '.br': 'brotli',
+};
+
+function pathName(url: string): string {
+  return new URL(url, self.location.href).pathname.split('/').pop() || '';
+}
+
+export function datasetCompression(url: string): DatasetCompression | null {
+  const name = pathName(url).toLowerCase();
+  const extension = Object.keys(COMPRESSED_EXTENSIONS).find(ext => name.endsWith(ext));
+  return extension ? COMPRESSED_EXTENSIONS[extension] : null;
+}
+
+// File name with any compression suffix removed, for format sniffing
+export function datasetFileName(url: string): string {
+  return pathName(url).replace(/\.(gz|br)$/i, '');
+}
+
+// Decode a compressed file. A server that labels it with Content-Encoding has
+// already had it decoded by the browser.
+export function decompressDataset(
+  stream: ReadableStream<Uint8Array>,
+  compression: DatasetCompression | null,
+  headers: Headers
+): ReadableStream<Uint8Array> {
+  if (!compression || headers.get('Content-Encoding')) return stream;
+  let decompressor: DecompressionStream;
+  try {
+    decompressor = new DecompressionStream(compression as CompressionFormat);
+  } catch {
+    throw new Error(`This browser cannot decompress ${compression} datasets`);
+  }
+  return stream.pipeThrough(decompressor as unknown as ReadableWritablePair<Uint8Array, Uint8Array>);
+}
+
+// Full size of the file, also for 206 responses ("Content-Range: bytes 100-199/200")
+export function datasetTotalBytes(headers: Headers): number | null {
+  const range = headers.get('Content-Range')?.match(/\/(\d+)$/);
+  if (range) return parseInt(range[1], 10);
+  const length = headers.get('Content-Length');
+  return length && !headers.get('Content-Encoding') ? parseInt(length, 10) : null;
+}
+
+// What identifies this version of the file; null when the server gives nothing usable
+export function datasetVersion(headers: Headers): string | null {
+  const total = datasetTotalBytes(headers);
+  return headers.get('ETag') || headers.get('Last-Modified') || (total !== null ? `size:${total}` : null);
+}
+
+// If-Range needs a strong ETag or a date; without one a download cannot be resumed safely
+export function rangeValidator(headers: Headers): string | null {
+  const etag = headers.get('ETag');
+  if (etag && !etag.startsWith('W/')) return etag;
+  return headers.get('Last-Modified');
+}
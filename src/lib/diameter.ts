@@ -0,0 +1,82 @@
+import { type Asteroid } from './indexedDB';
+
+// Size of every asteroid, measured or estimated, with the range it could lie in.
+//
+//   measured   the catalog diameter, +/- diameter_sigma when the catalog gives one
+//   estimated  D = 1329 km / sqrt(p) * 10^(-H/5) from the absolute magnitude. With
+//              no albedo, p spans the plausible range below (a factor of ~2.2 in
+//              size); a known albedo is taken to be good to KNOWN_ALBEDO_UNCERTAINTY.
+
+export type DiameterSource = 'measured' | 'estimated';
+
+export interface DiameterEstimate {
+  diameter: number; // km; 0 when neither a diameter nor H is known
+  diameterMin: number;
+  diameterMax: number;
+  diameterSource: DiameterSource;
+}
+
+// Dark C-types to bright S-types cover most of the population
+export const PLAUSIBLE_ALBEDO = { min: 0.05, typical: 0.1, max: 0.25 };
+
+const KNOWN_ALBEDO_UNCERTAINTY = 0.3; // Fractional
+
+export function diameterFromH(H: number, albedo: number): number {
+  return (1329 / Math.sqrt(albedo)) * Math.pow(10, -0.2 * H);
+}
+
+// Enrichment stores 0.1 for a missing albedo, so the flag decides for stored rows
+function knownAlbedo(asteroid: Partial<Asteroid>): number | undefined {
+  const { albedo } = asteroid;
+  if (albedo === undefined || !(albedo > 0) || asteroid.qualityFlags?.includes('missing-albedo')) return undefined;
+  return albedo;
+}
+
+export function estimateDiameter(asteroid: Partial<Asteroid>): DiameterEstimate {
+  // Stored rows carry their earlier estimate in diameter; only measurements are kept as-is
+  const diameter = asteroid.diameterSource === 'estimated' ? 0 : asteroid.diameter || 0;
+  if (diameter > 0) {
+    const sigma = asteroid.diameter_sigma && asteroid.diameter_sigma > 0 ? asteroid.diameter_sigma : 0;
+    return {
+      diameter,
+      diameterMin: Math.max(0, diameter - sigma),
+      diameterMax: diameter + sigma,
+      diameterSource: 'measured',
+    };
+  }
+
+  const { H } = asteroid;
+  if (!H) return { diameter: 0, diameterMin: 0, diameterMax: 0, diameterSource: 'estimated' };
+
+  const albedo = knownAlbedo(asteroid);
+  if (albedo !== undefined) {
+    return {
+      diameter: diameterFromH(H, albedo),
+      diameterMin: diameterFromH(H, albedo * (1 + KNOWN_ALBEDO_UNCERTAINTY)),
+      diameterMax: diameterFromH(H, albedo * (1 - KNOWN_ALBEDO_UNCERTAINTY)),
+      diameterSource: 'estimated',
+    };
+  }
+
+  return {
+    diameter: diameterFromH(H, PLAUSIBLE_ALBEDO.typical),
+    diameterMin: diameterFromH(H, PLAUSIBLE_ALBEDO.max),
+    diameterMax: diameterFromH(H, PLAUSIBLE_ALBEDO.min),
+    diameterSource: 'estimated',
+  };
+}
+
+function formatKm(km: number): string {
+  if (km >= 100) return km.toFixed(0);
+  if (km >= 1) return km.toFixed(1);
+  return km.toPrecision(2);
+}
+
+// "12.3 km", "12.3 ± 0.4 km", or "~0.8–1.7 km" for estimates
+export function formatDiameter(estimate: Pick<DiameterEstimate, 'diameter' | 'diameterMin' | 'diameterMax' | 'diameterSource'>): string {
+  const { diameter, diameterMin, diameterMax, diameterSource } = estimate;
+  if (!(diameter > 0)) return 'unknown';
+  if (diameterSource === 'estimated') return `~${formatKm(diameterMin)}–${formatKm(diameterMax)} km`;
+  if (diameterMax > diameter) return `${formatKm(diameter)} ± ${formatKm(diameterMax - diameter)} km`;
+  return `${formatKm(diameter)} km`;
+}
@@ -0,0 +1,155 @@
+import { type Asteroid } from './indexedDB';
+import { validateAsteroid } from './validation';
+import { type PriceTable, DEFAULT_PRICES, valueAsteroid } from './valuation';
+import { rendezvousDeltaV, difficultyFromDeltaV } from './deltaV';
+import { estimateDiameter } from './diameter';
+
+// SBDB orbit classes and their category labels. Catalogs that carry a class
+// column are trusted; rows without one are classified from their elements
+// with the same boundaries (see orbitClassFromElements).
+export const ORBIT_CLASSES: { code: string; label: string }[] = [
+  { code: 'IEO', label: 'Atira Asteroid' }, // Orbit inside Earth's: Q < 0.983 AU
+  { code: 'ATE', label: 'Aten Asteroid' }, // Earth-crossing, a < 1 AU
+  { code: 'APO', label: 'Apollo Asteroid' }, // Earth-crossing, a > 1 AU
+  { code: 'AMO', label: 'Amor Asteroid' }, // Earth-approaching, 1.017 < q < 1.3 AU
+  { code: 'MCA', label: 'Mars-crossing Asteroid' },
+  { code: 'IMB', label: 'Inner Main Belt' }, // a < 2.0 AU
+  { code: 'MBA', label: 'Main Belt' }, // 2.0 < a < 3.2 AU
+  { code: 'OMB', label: 'Outer Main Belt' }, // 3.2 < a < 4.6 AU
+  { code: 'TJN', label: 'Jupiter Trojan' },
+  { code: 'CEN', label: 'Centaur' }, // Between Jupiter and Neptune
+  { code: 'TNO', label: 'Trans-Neptunian Object' },
+  { code: 'PAA', label: 'Parabolic Asteroid' },
+  { code: 'HYA', label: 'Hyperbolic Asteroid' },
+  { code: 'AST', label: 'Unclassified Asteroid' },
+];
+
+const ORBIT_CLASS_LABELS = new Map(ORBIT_CLASSES.map(({ code, label }) => [code, label]));
+
+// Every category classifyAsteroid can return
+export const ASTEROID_CATEGORIES = ORBIT_CLASSES.map(({ label }) => label);
+
+// SBDB orbit class boundaries applied to the elements
+export function orbitClassFromElements(asteroid: Partial<Asteroid>): string {
+  const { a = 0, e = 0 } = asteroid;
+  if (e > 1) return 'HYA';
+  if (e === 1) return 'PAA';
+  if (a <= 0) return 'AST';
+
+  const q = asteroid.q || a * (1 - e);
+  const Q = asteroid.ad || a * (1 + e);
+  if (a < 1) return Q < 0.983 ? 'IEO' : 'ATE';
+  if (q < 1.017) return 'APO';
+  if (q < 1.3) return 'AMO';
+  if (q < 1.666 && a < 3.2) return 'MCA';
+  if (a < 2.0) return 'IMB';
+  if (a < 3.2) return 'MBA';
+  if (a < 4.6) return 'OMB';
+  if (a < 5.5) return 'TJN';
+  if (a < 30.1) return 'CEN';
+  return 'TNO';
+}
+
+// The catalog's own orbit class code, or one derived from the elements when it
+// is missing or not an asteroid class
+export function orbitClass(asteroid: Partial<Asteroid>): string {
+  const code = (asteroid.class || '').trim().toUpperCase();
+  return ORBIT_CLASS_LABELS.has(code) ? code : orbitClassFromElements(asteroid);
+}
+
+export function classifyAsteroid(asteroid: Partial<Asteroid>): string {
+  return ORBIT_CLASS_LABELS.get(orbitClass(asteroid))!;
+}
+
+const JUPITER_A = 5.2026; // AU
+
+// Tisserand parameter relative to Jupiter. Above 3 is asteroidal, 2-3 is
+// Jupiter-family-comet-like, below 2 Halley-type or long-period-comet-like.
+export function tisserandJupiter(asteroid: Partial<Asteroid>): number {
+  const { a = 0, e = 0, i = 0 } = asteroid;
+  if (a <= 0 || e >= 1) return NaN;
+  return JUPITER_A / a + 2 * Math.cos((i * Math.PI) / 180) * Math.sqrt((a / JUPITER_A) * (1 - e * e));
+}
+
+// Estimate asteroid color based on albedo and class
+export function getAsteroidColor(asteroid: Partial<Asteroid>): string {
+  const albedo = asteroid.albedo || 0.1;
+  const className = asteroid.class || '';
+  
+  // C-type (carbonaceous) - dark
+  if (className.startsWith('C') || albedo < 0.1) {
+    return '#4a4a4a';
+  }
+  
+  // S-type (silicaceous) - rocky/reddish
+  if (className.startsWith('S') || (albedo >= 0.1 && albedo < 0.25)) {
+    return '#8b7355';
+  }
+  
+  // M-type (metallic) - bright/metallic
+  if (className.startsWith('M') || albedo >= 0.25) {
+    return '#a8a8a8';
+  }
+  
+  // Based on albedo gradient
+  if (albedo < 0.05) return '#2d2d2d';
+  if (albedo < 0.15) return '#5a5a5a';
+  if (albedo < 0.3) return '#888888';
+  return '#b0b0b0';
+}
+
+// Difficulty label from the rendezvous delta-v; thresholds are in deltaV.ts
+export function getMiningDifficulty(asteroid: Partial<Asteroid>): string {
+  return difficultyFromDeltaV(asteroid.deltaV ?? rendezvousDeltaV(asteroid));
+}
+
+// Contained resource value at the given commodity prices; see valuation.ts
+export function estimateValue(asteroid: Partial<Asteroid>, prices: PriceTable = DEFAULT_PRICES): number {
+  return Math.round(valueAsteroid(asteroid, prices).total);
+}
+
+// Fill in defaults for missing columns and attach the computed fields
+export function enrichAsteroid(parsed: Partial<Asteroid>, prices: PriceTable = DEFAULT_PRICES): Asteroid {
+  const deltaV = rendezvousDeltaV(parsed);
+  const size = estimateDiameter(parsed);
+  return {
+    ...parsed,
+    id: parsed.id as string,
+    spkid: parsed.spkid as number || 0,
+    full_name: parsed.full_name as string || '',
+    pdes: parsed.pdes as string || '',
+    name: parsed.name as string || '',
+    neo: parsed.neo ? 1 : 0,
+    pha: parsed.pha ? 1 : 0,
+    H: parsed.H as number || 0,
+    ...size,
+    albedo: parsed.albedo as number || 0.1,
+    diameter_sigma: parsed.diameter_sigma as number || 0,
+    orbit_id: parsed.orbit_id as string || '',
+    epoch: parsed.epoch as number || 0,
+    epoch_mjd: parsed.epoch_mjd as number || 0,
+    e: parsed.e as number || 0,
+    a: parsed.a as number || 0,
+    q: parsed.q as number || 0,
+    i: parsed.i as number || 0,
+    om: parsed.om as number || 0,
+    w: parsed.w as number || 0,
+    ma: parsed.ma as number || 0,
+    ad: parsed.ad as number || 0,
+    n: parsed.n as number || 0,
+    tp: parsed.tp as number || 0,
+    per: parsed.per as number || 0,
+    per_y: parsed.per_y as number || 0,
+    moid: parsed.moid as number || 999,
+    moid_ld: parsed.moid_ld as number || 0,
+    class: orbitClass(parsed),
+    rms: parsed.rms as number || 0,
+    qualityFlags: validateAsteroid(parsed),
+    category: classifyAsteroid(parsed),
+    tisserandJ: tisserandJupiter(parsed),
+    color: getAsteroidColor(parsed),
+    estimatedValue: estimateValue(parsed, prices),
+    deltaV,
+    miningDifficulty: difficultyFromDeltaV(deltaV),
+  };
+}
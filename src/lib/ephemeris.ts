@@ -0,0 +1,148 @@
+// Approximate planet positions from mean Keplerian elements and their secular
+// rates (E. M. Standish, "Keplerian Elements for Approximate Positions of the
+// Major Planets", JPL, table 1: valid 1800-2050 AD, errors of arcminutes).
+// Positions are heliocentric ecliptic J2000 in AU, the frame of kepler.ts.
+
+import { type ConicElements, perifocalToEcliptic, solveKepler } from './kepler';
+
+export const J2000_JD = 2451545.0;
+const DAYS_PER_CENTURY = 36525;
+const DEG = Math.PI / 180;
+
+// Standish's element set: mean longitude L and longitude of perihelion varpi
+// instead of mean anomaly and argument of perihelion
+export interface MeanElements {
+  a: number; // AU
+  e: number;
+  i: number; // deg
+  L: number; // Mean longitude, deg
+  varpi: number; // Longitude of perihelion, deg
+  om: number; // Longitude of the ascending node, deg
+}
+
+export interface PlanetEphemeris {
+  elements: MeanElements; // At J2000
+  rates: MeanElements; // Per Julian century
+}
+
+function ephemeris(elements: number[], rates: number[]): PlanetEphemeris {
+  const [a, e, i, L, varpi, om] = elements;
+  const [da, de, di, dL, dvarpi, dom] = rates;
+  return {
+    elements: { a, e, i, L, varpi, om },
+    rates: { a: da, e: de, i: di, L: dL, varpi: dvarpi, om: dom },
+  };
+}
+
+export const EPHEMERIDES: Record<string, PlanetEphemeris> = {
+  Mercury: ephemeris(
+    [0.38709927, 0.20563593, 7.00497902, 252.2503235, 77.45779628, 48.33076593],
+    [0.00000037, 0.00001906, -0.00594749, 149472.67411175, 0.16047689, -0.12534081]
+  ),
+  Venus: ephemeris(
+    [0.72333566, 0.00677672, 3.39467605, 181.9790995, 131.60246718, 76.67984255],
+    [0.0000039, -0.00004107, -0.0007889, 58517.81538729, 0.00268329, -0.27769418]
+  ),
+  // Earth-Moon barycenter
+  Earth: ephemeris(
+    [1.00000261, 0.01671123, -0.00001531, 100.46457166, 102.93768193, 0],
+    [0.00000562, -0.00004392, -0.01294668, 35999.37244981, 0.32327364, 0]
+  ),
+  Mars: ephemeris(
+    [1.52371034, 0.0933941, 1.84969142, -4.55343205, -23.94362959, 49.55953891],
+    [0.00001847, 0.00007882, -0.00813131, 19140.30268499, 0.44441088, -0.29257343]
+  ),
+  Jupiter: ephemeris(
+    [5.202887, 0.04838624, 1.30439695, 34.39644051, 14.72847983, 100.47390909],
+    [-0.00011607, -0.00013253, -0.00183714, 3034.74612775, 0.21252668, 0.20469106]
+  ),
+  Saturn: ephemeris(
+    [9.53667594, 0.05386179, 2.48599187, 49.95424423, 92.59887831, 113.66242448],
+    [-0.0012506, -0.00050991, 0.00193609, 1222.49362201, -0.41897216, -0.28867794]
+  ),
+  Uranus: ephemeris(
+    [19.18916464, 0.04725744, 0.77263783, 313.23810451, 170.9542763, 74.01692503],
+    [-0.00196176, -0.00004397, -0.00242939, 428.48202785, 0.40805281, 0.04240589]
+  ),
+  Neptune: ephemeris(
+    [30.06992276, 0.00859048, 1.77004347, -55.12002969, 44.96476227, 131.78422574],
+    [0.00026291, 0.00005105, 0.00035372, 218.45945325, -0.32241464, -0.00508664]
+  ),
+  Pluto: ephemeris(
+    [39.48211675, 0.2488273, 17.14001206, 238.92903833, 224.06891629, 110.30393684],
+    [-0.00031596, 0.0000517, 0.00004818, 145.20780515, -0.04062942, -0.01183482]
+  ),
+  // Not in Standish's table: SBDB osculating elements (epoch 2020-05-31)
+  // carried back to J2000, drifting only by their mean motion
+  Eris: ephemeris(
+    [67.86, 0.437, 44.04, 20.44, 187.59, 35.95],
+    [0, 0, 0, 64.3982, 0, 0]
+  ),
+  Makemake: ephemeris(
+    [45.43, 0.161, 28.98, 155.97, 14.46, 79.62],
+    [0, 0, 0, 117.5656, 0, 0]
+  ),
+  Haumea: ephemeris(
+    [43.12, 0.196, 28.2, 193.2, 0.94, 121.9],
+    [0, 0, 0, 127.1382, 0, 0]
+  ),
+};
+
+// Elements at a Julian Date, as the conic elements kepler.ts works with plus
+// the mean anomaly (deg)
+export function elementsAt(body: PlanetEphemeris, jd: number): ConicElements & { a: number; M: number } {
+  const T = (jd - J2000_JD) / DAYS_PER_CENTURY;
+  const { elements: el, rates } = body;
+  const a = el.a + rates.a * T;
+  const e = el.e + rates.e * T;
+  const L = el.L + rates.L * T;
+  const varpi = el.varpi + rates.varpi * T;
+  const om = el.om + rates.om * T;
+  return {
+    a,
+    q: a * (1 - e),
+    e,
+    i: el.i + rates.i * T,
+    om,
+    w: varpi - om,
+    M: L - varpi,
+  };
+}
+
+// Heliocentric ecliptic position (AU) of a planet at a Julian Date
+export function planetPosition(body: PlanetEphemeris, jd: number): { x: number; y: number; z: number } {
+  const elements = elementsAt(body, jd);
+  const E = solveKepler(elements.M * DEG, elements.e);
+  const x = elements.a * (Math.cos(E) - elements.e);
+  const y = elements.a * Math.sqrt(1 - elements.e * elements.e) * Math.sin(E);
+  return perifocalToEcliptic(x, y, elements);
+}
+
+// Points around the orbit at a Julian Date, evenly spaced in eccentric anomaly
+// so the ends of eccentric orbits stay smooth
+export function orbitPoints(body: PlanetEphemeris, jd: number, segments: number): Array<{ x: number; y: number; z: number }> {
+  const elements = elementsAt(body, jd);
+  const b = elements.a * Math.sqrt(1 - elements.e * elements.e);
+  const points = [];
+  for (let n = 0; n <= segments; n++) {
+    const E = (n / segments) * 2 * Math.PI;
+    points.push(perifocalToEcliptic(elements.a * (Math.cos(E) - elements.e), b * Math.sin(E), elements));
+  }
+  return points;
+}
+
+// Mean obliquity of the ecliptic at J2000 (IAU 2006)
+const OBLIQUITY_J2000 = 23.43928 * DEG;
+
+// Ecliptic unit vector of a direction given in ICRF equatorial coordinates
+// (deg), e.g. a rotation pole or a Laplace plane pole
+export function equatorialDirection(ra: number, dec: number): { x: number; y: number; z: number } {
+  const x = Math.cos(dec * DEG) * Math.cos(ra * DEG);
+  const y = Math.cos(dec * DEG) * Math.sin(ra * DEG);
+  const z = Math.sin(dec * DEG);
+  return {
+    x,
+    y: y * Math.cos(OBLIQUITY_J2000) + z * Math.sin(OBLIQUITY_J2000),
+    z: -y * Math.sin(OBLIQUITY_J2000) + z * Math.cos(OBLIQUITY_J2000),
+  };
+}
@@ -0,0 +1,241 @@
+import { type Asteroid } from '../indexedDB';
+import { CsvReader, type CsvRecord, normalizeHeader } from '../csv';
+import { type CatalogParser, type ParsedRow } from './types';
+import { coerceFields, completeOrbit, designationId } from './fields';
+
+// Import of arbitrary CSV/TSV files whose headers the user maps onto Asteroid
+// fields. The mapping stores header indexes so it survives postMessage to the worker.
+
+export type MappableField = keyof Omit<Asteroid, 'estimatedValue' | 'deltaV' | 'tisserandJ' | 'diameterMin' | 'diameterMax' | 'diameterSource' | 'miningDifficulty' | 'category' | 'color'>;
+
+export type ColumnMapping = Partial<Record<MappableField, number>>;
+
+export interface MappableFieldInfo {
+  field: MappableField;
+  label: string;
+  required?: boolean;
+}
+
+export const MAPPABLE_FIELDS: MappableFieldInfo[] = [
+  { field: 'id', label: 'Record ID' },
+  { field: 'pdes', label: 'Designation' },
+  { field: 'name', label: 'Name' },
+  { field: 'full_name', label: 'Full name' },
+  { field: 'spkid', label: 'SPK-ID' },
+  { field: 'a', label: 'Semi-major axis (AU)', required: true },
+  { field: 'e', label: 'Eccentricity', required: true },
+  { field: 'i', label: 'Inclination (deg)', required: true },
+  { field: 'om', label: 'Ascending node (deg)' },
+  { field: 'w', label: 'Argument of perihelion (deg)' },
+  { field: 'ma', label: 'Mean anomaly (deg)' },
+  { field: 'epoch', label: 'Epoch (JD)' },
+  { field: 'epoch_mjd', label: 'Epoch (MJD)' },
+  { field: 'q', label: 'Perihelion distance (AU)' },
+  { field: 'ad', label: 'Aphelion distance (AU)' },
+  { field: 'n', label: 'Mean motion (deg/day)' },
+  { field: 'tp', label: 'Time of perihelion (JD)' },
+  { field: 'per', label: 'Period (days)' },
+  { field: 'per_y', label: 'Period (years)' },
+  { field: 'H', label: 'Absolute magnitude H' },
+  { field: 'diameter', label: 'Diameter (km)' },
+  { field: 'albedo', label: 'Albedo' },
+  { field: 'diameter_sigma', label: 'Diameter sigma (km)' },
+  { field: 'moid', label: 'Earth MOID (AU)' },
+  { field: 'moid_ld', label: 'Earth MOID (LD)' },
+  { field: 'neo', label: 'NEO flag' },
+  { field: 'pha', label: 'PHA flag' },
+  { field: 'class', label: 'Orbit class' },
+  { field: 'orbit_id', label: 'Orbit solution ID' },
+  { field: 'rms', label: 'Fit RMS' },
+];
+
+// At least one of these is needed to give each row an identity
+export const IDENTITY_FIELDS: MappableField[] = ['id', 'pdes', 'name', 'full_name'];
+
+// Common alternative header names, compared after normalizeColumnName
+const FIELD_SYNONYMS: Partial<Record<MappableField, string[]>> = {
+  id: ['objectid', 'recordid'],
+  pdes: ['designation', 'desig', 'primarydesignation', 'number', 'packeddesignation'],
+  name: ['asteroidname', 'objectname'],
+  full_name: ['fullname', 'object', 'fulldesignation'],
+  spkid: ['spk'],
+  a: ['semimajoraxis', 'sma', 'aau', 'axis'],
+  e: ['ecc', 'eccentricity'],
+  i: ['inc', 'incl', 'inclination'],
+  om: ['node', 'omega', 'raan', 'ascendingnode', 'longnode', 'longitudeofascendingnode'],
+  w: ['peri', 'argperi', 'argp', 'argperihelion', 'argumentofperihelion', 'argofperihelion', 'perihelionargument'],
+  ma: ['m', 'meananomaly', 'anomaly'],
+  epoch: ['epochjd', 'jd'],
+  epoch_mjd: ['epochmjd', 'mjd'],
+  q: ['perihelion', 'periheliondistance', 'qau'],
+  ad: ['aphelion', 'apheliondistance', 'qq'],
+  n: ['meanmotion'],
+  tp: ['timeofperihelion', 'periheliontime', 'tperi'],
+  per: ['period', 'perioddays', 'orbitalperiod'],
+  per_y: ['periodyears', 'periody'],
+  H: ['absolutemagnitude', 'absmag', 'hmag', 'magnitude'],
+  diameter: ['diameterkm', 'diam', 'size'],
+  albedo: ['geometricalbedo', 'pv'],
+  diameter_sigma: ['diametererror', 'diametersigma'],
+  moid: ['moidau', 'earthmoid'],
+  moid_ld: ['moidld'],
+  neo: ['isneo', 'nearearth', 'nearearthobject'],
+  pha: ['ispha', 'hazardous', 'potentiallyhazardous'],
+  class: ['orbitclass', 'type', 'orbittype'],
+  orbit_id: ['orbitid', 'solution'],
+};
+
+const PREVIEW_BYTES = 64 * 1024;
+const PREVIEW_ROWS = 5;
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+const TRUE_VALUES = new Set(['y', 'yes', 'true', 't', '1']);
+
+// "Semi_Major Axis" -> "semimajoraxis"
+function normalizeColumnName(header: string): string {
+  return normalizeHeader(header).toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Map each field to the first unused header equal to its name or a synonym
+export function autoMatchColumns(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeColumnName);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  const claim = (field: MappableField, candidates: string[]) => {
+    if (mapping[field] !== undefined) return;
+    const index = normalized.findIndex((header, i) => !used.has(i) && candidates.includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  };
+
+  // Exact field names first so "a" is not taken by a synonym of another field
+  for (const { field } of MAPPABLE_FIELDS) claim(field, [normalizeColumnName(field)]);
+  for (const { field } of MAPPABLE_FIELDS) claim(field, FIELD_SYNONYMS[field] || []);
+
+  return mapping;
+}
+
+// Returns a message for every problem that prevents an import
+export function validateColumnMapping(mapping: ColumnMapping): string[] {
+  const problems = MAPPABLE_FIELDS
+    .filter(info => info.required && mapping[info.field] === undefined)
+    .map(info => `${info.label} is not mapped`);
+  if (!IDENTITY_FIELDS.some(field => mapping[field] !== undefined)) {
+    problems.push('Map at least one of Record ID, Designation, Name or Full name');
+  }
+  return problems;
+}
+
+// Pick the candidate that splits the header line into the most columns
+export function detectDelimiter(headerLine: string, fileName: string): string {
+  if (/\.tsv$/i.test(fileName)) return '\t';
+
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = headerLine.replace(/"[^"]*"/g, '').split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export interface FilePreview {
+  delimiter: string;
+  headers: string[];
+  rows: string[][];
+}
+
+// Read the header and a few rows from the start of a local file
+export async function readFilePreview(file: File): Promise<FilePreview> {
+  let text = await file.slice(0, PREVIEW_BYTES).text();
+  // Don't hand a half-read final line to the CSV reader
+  if (file.size > PREVIEW_BYTES && text.includes('\n')) {
+    text = text.slice(0, text.lastIndexOf('\n') + 1);
+  }
+
+  const delimiter = detectDelimiter(text.split('\n')[0] || '', file.name);
+  const reader = new CsvReader(delimiter);
+  const records = [...reader.push(text), ...reader.end()];
+  if (records.length === 0) throw new Error('File is empty');
+
+  return {
+    delimiter,
+    headers: records[0].fields.map(normalizeHeader),
+    rows: records.slice(1, PREVIEW_ROWS + 1).map(record => record.fields),
+  };
+}
+
+class MappedCsvParser implements CatalogParser {
+  private csv: CsvReader;
+  private mapping: ColumnMapping;
+  private headerSkipped = false;
+
+  constructor(delimiter: string, mapping: ColumnMapping) {
+    this.csv = new CsvReader(delimiter);
+    this.mapping = mapping;
+  }
+
+  push(text: string): ParsedRow[] {
+    return this.convert(this.csv.push(text));
+  }
+
+  end(): ParsedRow[] {
+    return this.convert(this.csv.end());
+  }
+
+  private convert(records: CsvRecord[]): ParsedRow[] {
+    const rows: ParsedRow[] = [];
+
+    for (const record of records) {
+      if (!this.headerSkipped) {
+        this.headerSkipped = true;
+        continue;
+      }
+
+      const preview = record.fields.slice(0, 3).join(', ');
+      if (record.error) {
+        rows.push({ line: record.line, error: record.error, preview });
+        continue;
+      }
+
+      const values: Record<string, string> = {};
+      for (const [field, index] of Object.entries(this.mapping)) {
+        values[field] = record.fields[index] ?? '';
+      }
+
+      const missing = MAPPABLE_FIELDS.find(info => info.required && isNaN(parseFloat(values[info.field])));
+      if (missing) {
+        rows.push({ line: record.line, error: `Missing or invalid ${missing.label}`, preview });
+        continue;
+      }
+
+      // Spreadsheets write flags as yes/true/1 rather than the SBDB's Y/N
+      for (const flag of ['neo', 'pha'] as const) {
+        if (flag in values) values[flag] = TRUE_VALUES.has(values[flag].trim().toLowerCase()) ? 'Y' : 'N';
+      }
+
+      const fields = completeOrbit(coerceFields(values));
+      if (!fields.id) {
+        const identity = fields.pdes || fields.name || fields.full_name;
+        if (!identity) {
+          rows.push({ line: record.line, error: 'Missing id, designation and name', preview });
+          continue;
+        }
+        fields.id = designationId(identity);
+      }
+
+      rows.push({ line: record.line, fields, preview });
+    }
+
+    return rows;
+  }
+}
+
+export function createMappedCsvParser(delimiter: string, mapping: ColumnMapping): CatalogParser {
+  return new MappedCsvParser(delimiter, mapping);
+}
@@ -0,0 +1,85 @@
+import { type Asteroid } from '../indexedDB';
+
+const NUMERIC_FIELDS = new Set([
+  'spkid', 'H', 'diameter', 'albedo', 'diameter_sigma', 'epoch', 'epoch_mjd',
+  'e', 'a', 'q', 'i', 'om', 'w', 'ma', 'ad', 'n', 'tp', 'per', 'per_y',
+  'moid', 'moid_ld', 'rms', 'M1', 'K1', 'M2', 'K2',
+]);
+
+// Offset between Julian Date and Modified Julian Date
+export const MJD_OFFSET = 2400000.5;
+
+// Convert named source values into typed asteroid fields.
+// Unknown columns are kept as strings so nothing in the source is lost.
+// Blank or unparseable numbers are left out rather than zeroed, so validation
+// can flag them before enrichAsteroid fills in defaults.
+export function coerceFields(values: Record<string, string | number | null | undefined>): Partial<Asteroid> {
+  const obj: Record<string, unknown> = {};
+
+  for (const [key, raw] of Object.entries(values)) {
+    const value = raw === null || raw === undefined ? '' : String(raw).trim();
+
+    if (key === 'neo' || key === 'pha') {
+      // Parse case-insensitively for Y/N flags
+      obj[key] = value.toUpperCase() === 'Y' ? 1 : 0;
+    } else if (NUMERIC_FIELDS.has(key)) {
+      const num = parseFloat(value);
+      if (!isNaN(num)) obj[key] = num;
+    } else {
+      obj[key] = value;
+    }
+  }
+
+  return completeEpoch(obj as Partial<Asteroid>);
+}
+
+// Make sure both epoch (JD) and epoch_mjd are present when either one is known
+export function completeEpoch(fields: Partial<Asteroid>): Partial<Asteroid> {
+  if (!fields.epoch_mjd && fields.epoch) {
+    fields.epoch_mjd = fields.epoch - MJD_OFFSET;
+  } else if (!fields.epoch && fields.epoch_mjd) {
+    fields.epoch = fields.epoch_mjd + MJD_OFFSET;
+  }
+  return fields;
+}
+
+// Julian Date of a calendar date (TT) at the given fractional day
+export function calendarToJD(year: number, month: number, day: number): number {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+// Stable record id in the same scheme as the SBDB export:
+// "a" + zero-padded number for numbered objects, "b" + designation otherwise
+export function designationId(pdes: string): string {
+  const trimmed = pdes.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return `a${trimmed.padStart(7, '0')}`;
+  }
+  return `b${trimmed.replace(/\s+/g, '')}`;
+}
+
+// Fill in the derived orbit quantities a source may omit
+export function completeOrbit(fields: Partial<Asteroid>): Partial<Asteroid> {
+  const { a, e } = fields;
+  if (a && e !== undefined) {
+    if (!fields.q) fields.q = a * (1 - e);
+    if (!fields.ad && e < 1) fields.ad = a * (1 + e);
+  }
+  if (!fields.n && a && a > 0) {
+    // Gaussian gravitational constant in degrees per day
+    fields.n = 0.9856076686 / Math.pow(a, 1.5);
+  }
+  if (!fields.per && fields.n) {
+    fields.per = 360 / fields.n;
+  }
+  if (!fields.per_y && fields.per) {
+    fields.per_y = fields.per / 365.25;
+  }
+  return fields;
+}
@@ -0,0 +1,30 @@
+import { type CatalogImporter } from './types';
+import { sbdbJsonImporter } from './sbdbJson';
+import { mpcorbImporter } from './mpcorb';
+import { kaggleCsvImporter } from './kaggleCsv';
+
+export type { CatalogImporter, CatalogParser, ParsedRow } from './types';
+export {
+  type ColumnMapping,
+  type FilePreview,
+  type MappableField,
+  MAPPABLE_FIELDS,
+  autoMatchColumns,
+  validateColumnMapping,
+  readFilePreview,
+  createMappedCsvParser,
+} from './columnMapping';
+
+// Ordered from most to least specific; the CSV importer is the fallback
+export const IMPORTERS: CatalogImporter[] = [
+  sbdbJsonImporter,
+  mpcorbImporter,
+  kaggleCsvImporter,
+];
+
+// Number of characters to collect before sniffing the format
+export const SNIFF_LENGTH = 4096;
+
+export function detectImporter(head: string, fileName: string): CatalogImporter {
+  return IMPORTERS.find(importer => importer.sniff(head, fileName)) ?? kaggleCsvImporter;
+}
@@ -0,0 +1,66 @@
+import { CsvReader, type CsvRecord, normalizeHeader } from '../csv';
+import { type CatalogImporter, type CatalogParser, type ParsedRow } from './types';
+import { coerceFields, completeOrbit } from './fields';
+
+// Kaggle "asteroid-dataset" CSV (an SBDB export): one header row, columns in any order
+class KaggleCsvParser implements CatalogParser {
+  private csv = new CsvReader();
+  private headers: string[] | null = null;
+
+  push(text: string): ParsedRow[] {
+    return this.convert(this.csv.push(text));
+  }
+
+  end(): ParsedRow[] {
+    return this.convert(this.csv.end());
+  }
+
+  private convert(records: CsvRecord[]): ParsedRow[] {
+    const rows: ParsedRow[] = [];
+
+    for (const record of records) {
+      if (!this.headers) {
+        this.headers = record.fields.map(normalizeHeader);
+        continue;
+      }
+
+      const preview = record.fields.slice(0, 3).join(', ');
+
+      if (record.error) {
+        rows.push({ line: record.line, error: record.error, preview });
+        continue;
+      }
+
+      if (record.fields.length !== this.headers.length) {
+        rows.push({
+          line: record.line,
+          error: `Expected ${this.headers.length} fields, found ${record.fields.length}`,
+          preview,
+        });
+        continue;
+      }
+
+      const values: Record<string, string> = {};
+      this.headers.forEach((header, i) => {
+        values[header] = record.fields[i];
+      });
+
+      rows.push({ line: record.line, fields: completeOrbit(coerceFields(values)), preview });
+    }
+
+    return rows;
+  }
+}
+
+export const kaggleCsvImporter: CatalogImporter = {
+  id: 'kaggle-csv',
+  label: 'SBDB / Kaggle CSV',
+  sniff(head) {
+    const firstLine = normalizeHeader(head.split('\n')[0] || '');
+    const headers = firstLine.split(',').map(h => h.replace(/"/g, '').trim());
+    return headers.includes('id') && (headers.includes('pdes') || headers.includes('spkid'));
+  },
+  createParser() {
+    return new KaggleCsvParser();
+  },
+};
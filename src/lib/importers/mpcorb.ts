@@ -0,0 +1,217 @@
+import { type Asteroid } from '../indexedDB';
+import { type CatalogImporter, type CatalogParser, type ParsedRow } from './types';
+import { MJD_OFFSET, calendarToJD, completeOrbit, designationId } from './fields';
+import { orbitClassFromElements } from '../enrichment';
+
+// Minor Planet Center MPCORB.DAT: fixed-width records after a free-text header
+// that ends with a line of dashes. Column layout (1-based, inclusive):
+//   1-7 packed designation, 9-13 H, 21-25 packed epoch, 27-35 M, 38-46 peri,
+//   49-57 node, 60-68 incl, 71-79 e, 81-91 n, 93-103 a, 138-141 rms,
+//   162-165 hex flags, 167-194 readable designation
+
+const PACKED_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+const CENTURIES: Record<string, number> = { I: 1800, J: 1900, K: 2000 };
+
+// MPC orbit type (low 6 bits of the flags) -> SBDB orbit class
+const ORBIT_TYPE_CLASS: Record<number, string> = {
+  1: 'IEO',
+  2: 'ATE',
+  3: 'APO',
+  4: 'AMO',
+  5: 'MCA',
+  6: 'IMB', // Hungarias
+  8: 'OMB',
+  9: 'TJN',
+  // 7 (Phocaeas) and 10 (distant objects, centaurs and TNOs alike) are classed from the elements
+};
+
+const FLAG_NEO = 0x0800;
+const FLAG_PHA = 0x8000;
+
+function packedValue(char: string): number {
+  return PACKED_DIGITS.indexOf(char);
+}
+
+// Unpack a 5-character permanent number, e.g. "00433", "A0001" (100001), "~0000" (620000)
+export function unpackNumber(packed: string): number | null {
+  if (packed.length !== 5) return null;
+
+  if (packed[0] === '~') {
+    let value = 0;
+    for (const char of packed.slice(1)) {
+      const digit = packedValue(char);
+      if (digit < 0) return null;
+      value = value * 62 + digit;
+    }
+    return 620000 + value;
+  }
+
+  const head = packedValue(packed[0]);
+  if (head < 0 || !/^\d{4}$/.test(packed.slice(1))) return null;
+  return head * 10000 + parseInt(packed.slice(1), 10);
+}
+
+// Unpack a 7-character provisional designation, e.g. "K24Y04R" -> "2024 YR4", "PLS2040" -> "2040 P-L"
+export function unpackProvisional(packed: string): string | null {
+  if (packed.length !== 7) return null;
+
+  const survey = packed.slice(0, 3);
+  if (survey === 'PLS') return `${packed.slice(3)} P-L`;
+  if (/^T[123]S$/.test(survey)) return `${packed.slice(3)} T-${survey[1]}`;
+
+  const century = CENTURIES[packed[0]];
+  if (century === undefined) return null;
+
+  const year = century + parseInt(packed.slice(1, 3), 10);
+  const halfMonth = packed[3];
+  const cycle = packedValue(packed[4]) * 10 + parseInt(packed[5], 10);
+  const secondLetter = packed[6];
+
+  if (isNaN(year) || isNaN(cycle)) return null;
+  return `${year} ${halfMonth}${secondLetter}${cycle > 0 ? cycle : ''}`;
+}
+
+// Unpack a 5-character packed epoch ("K2555" = 2025-05-05.0 TT) to a Julian Date
+export function unpackEpoch(packed: string): number | null {
+  if (packed.length !== 5) return null;
+
+  const century = CENTURIES[packed[0]];
+  const year = parseInt(packed.slice(1, 3), 10);
+  // Month and day use the same digits: 1-9 then A=10 ... V=31
+  const month = packedValue(packed[3]);
+  const day = packedValue(packed[4]);
+
+  if (century === undefined || isNaN(year) || month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+  return calendarToJD(century + year, month, day);
+}
+
+function column(line: string, start: number, end: number): string {
+  return line.slice(start - 1, end).trim();
+}
+
+function parseRecord(line: string): Partial<Asteroid> | string {
+  if (line.length < 103) return 'Record shorter than 103 columns';
+
+  const packedDesignation = column(line, 1, 7);
+  const number = unpackNumber(packedDesignation);
+  const provisional = number === null ? unpackProvisional(packedDesignation) : null;
+  if (number === null && provisional === null) {
+    return `Unrecognised packed designation "${packedDesignation}"`;
+  }
+
+  const epoch = unpackEpoch(column(line, 21, 25));
+  if (epoch === null) return `Unrecognised packed epoch "${column(line, 21, 25)}"`;
+
+  const elements = {
+    H: parseFloat(column(line, 9, 13)),
+    ma: parseFloat(column(line, 27, 35)),
+    w: parseFloat(column(line, 38, 46)),
+    om: parseFloat(column(line, 49, 57)),
+    i: parseFloat(column(line, 60, 68)),
+    e: parseFloat(column(line, 71, 79)),
+    n: parseFloat(column(line, 81, 91)),
+    a: parseFloat(column(line, 93, 103)),
+  };
+  for (const [key, value] of Object.entries(elements)) {
+    // H may legitimately be blank for poorly observed objects
+    if (isNaN(value) && key !== 'H') return `Missing or invalid ${key}`;
+  }
+
+  const flags = parseInt(column(line, 162, 165) || '0', 16) || 0;
+  const readable = column(line, 167, 194);
+  const pdes = number !== null ? String(number) : provisional!;
+  const nameMatch = readable.match(/^\(\d+\)\s+(.+)$/);
+  const name = nameMatch && !/^\d{4} /.test(nameMatch[1]) ? nameMatch[1] : '';
+
+  const row = completeOrbit({
+    id: designationId(pdes),
+    spkid: number !== null ? 2000000 + number : 0,
+    full_name: readable || pdes,
+    pdes,
+    name,
+    neo: flags & FLAG_NEO ? 1 : 0,
+    pha: flags & FLAG_PHA ? 1 : 0,
+    H: isNaN(elements.H) ? undefined : elements.H,
+    epoch,
+    epoch_mjd: epoch - MJD_OFFSET,
+    e: elements.e,
+    a: elements.a,
+    i: elements.i,
+    om: elements.om,
+    w: elements.w,
+    ma: elements.ma,
+    n: elements.n,
+    rms: parseFloat(column(line, 138, 141)) || 0,
+    class: ORBIT_TYPE_CLASS[flags & 0x3f] || '',
+  });
+  // Unclassified or unmapped orbit types get the class their elements imply
+  if (!row.class) row.class = orbitClassFromElements(row);
+  return row;
+}
+
+class MpcorbParser implements CatalogParser {
+  private remainder = '';
+  private line = 0;
+  // Files from the MPC start with a text header; bare extracts start with data
+  private inHeader: boolean | null = null;
+
+  push(text: string): ParsedRow[] {
+    const lines = (this.remainder + text).split('\n');
+    this.remainder = lines.pop() ?? '';
+    return this.convert(lines);
+  }
+
+  end(): ParsedRow[] {
+    const lines = this.remainder ? [this.remainder] : [];
+    this.remainder = '';
+    return this.convert(lines);
+  }
+
+  private convert(lines: string[]): ParsedRow[] {
+    const rows: ParsedRow[] = [];
+
+    for (const rawLine of lines) {
+      this.line++;
+      const line = rawLine.replace(/\r$/, '');
+
+      if (this.inHeader === null) {
+        this.inHeader = typeof parseRecord(line) === 'string';
+      }
+      if (this.inHeader) {
+        if (/^-{10,}/.test(line)) this.inHeader = false;
+        continue;
+      }
+
+      // Blank lines separate the numbered and unnumbered sections
+      if (!line.trim()) continue;
+
+      const preview = line.slice(0, 7).trim() + ' ' + line.slice(166, 194).trim();
+      const result = parseRecord(line);
+
+      if (typeof result === 'string') {
+        rows.push({ line: this.line, error: result, preview });
+      } else {
+        rows.push({ line: this.line, fields: result, preview });
+      }
+    }
+
+    return rows;
+  }
+}
+
+export const mpcorbImporter: CatalogImporter = {
+  id: 'mpcorb',
+  label: 'MPC MPCORB.DAT',
+  sniff(head, fileName) {
+    if (/mpcorb/i.test(fileName)) return true;
+    if (/Minor Planet Center|MPCORB/i.test(head)) return true;
+    const firstLine = head.split('\n')[0].replace(/\r$/, '');
+    return typeof parseRecord(firstLine) !== 'string';
+  },
+  createParser() {
+    return new MpcorbParser();
+  },
+};
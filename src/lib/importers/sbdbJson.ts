@@ -0,0 +1,77 @@
+import { type CatalogImporter, type CatalogParser, type ParsedRow } from './types';
+import { coerceFields, completeOrbit, designationId } from './fields';
+
+// JPL Small-Body Database query API export:
+//   { "signature": {...}, "fields": ["spkid", "full_name", ...], "data": [[...], ...] }
+// Rows may also be objects keyed by field name. JSON cannot be parsed
+// incrementally without a streaming parser, so the text is buffered until end().
+
+type SbdbValue = string | number | null;
+
+interface SbdbExport {
+  fields?: string[];
+  data?: Array<SbdbValue[] | Record<string, SbdbValue>>;
+}
+
+class SbdbJsonParser implements CatalogParser {
+  private chunks: string[] = [];
+
+  push(text: string): ParsedRow[] {
+    this.chunks.push(text);
+    return [];
+  }
+
+  end(): ParsedRow[] {
+    const text = this.chunks.join('');
+    this.chunks = [];
+
+    let json: SbdbExport;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      return [{ line: 1, error: `Invalid JSON: ${(error as Error).message}`, preview: text.slice(0, 60) }];
+    }
+
+    if (!Array.isArray(json.data)) {
+      return [{ line: 1, error: 'No "data" array in SBDB export', preview: text.slice(0, 60) }];
+    }
+
+    const fieldNames = json.fields || [];
+    return json.data.map((row, index) => {
+      const values: Record<string, SbdbValue> = {};
+      if (Array.isArray(row)) {
+        fieldNames.forEach((name, i) => {
+          values[name] = row[i];
+        });
+      } else {
+        Object.assign(values, row);
+      }
+
+      const line = index + 1;
+      const preview = [values.spkid, values.full_name ?? values.pdes].filter(v => v != null).join(', ');
+
+      if (Array.isArray(row) && row.length !== fieldNames.length) {
+        return { line, error: `Expected ${fieldNames.length} fields, found ${row.length}`, preview };
+      }
+
+      const fields = completeOrbit(coerceFields(values));
+      if (!fields.id && fields.pdes) {
+        fields.id = designationId(fields.pdes);
+      }
+
+      return { line, fields, preview };
+    });
+  }
+}
+
+export const sbdbJsonImporter: CatalogImporter = {
+  id: 'sbdb-json',
+  label: 'JPL SBDB JSON',
+  sniff(head, fileName) {
+    const trimmed = head.trimStart();
+    return trimmed.startsWith('{') && (/"fields"\s*:/.test(head) || /"signature"\s*:/.test(head) || /\.json$/i.test(fileName));
+  },
+  createParser() {
+    return new SbdbJsonParser();
+  },
+};
@@ -0,0 +1,23 @@
+import { type Asteroid } from '../indexedDB';
+
+// One source row after parsing: either asteroid fields or the reason it was rejected
+export interface ParsedRow {
+  line: number; // 1-based line (or row number for formats without lines)
+  fields?: Partial<Asteroid>;
+  error?: string;
+  preview: string; // Short excerpt of the source row for the rejected-row report
+}
+
+// Incremental parser for one catalog file; text may arrive in arbitrary chunks
+export interface CatalogParser {
+  push(text: string): ParsedRow[];
+  end(): ParsedRow[];
+}
+
+export interface CatalogImporter {
+  id: string;
+  label: string;
+  // Decide from the first few KB of text (and the file name) whether this importer applies
+  sniff(head: string, fileName: string): boolean;
+  createParser(): CatalogParser;
+}
@@ -1,9 +1,26 @@
 import { openDB, type IDBPDatabase } from 'idb';
+import { type QualityFlag } from './validation';
+import { type ParsedQuery, type IndexCandidate, indexCandidates, matchesQuery } from './query';
+import { type CatalogStatistics, CatalogStatsBuilder } from './catalogStats';
+import { type PriceTable, normalizePrices } from './valuation';
+import { type DiameterSource } from './diameter';
+import {
+  DB_VERSION,
+  STORE_NAME,
+  META_STORE,
+  COLUMN_STORE,
+  USER_CATALOG_STORE,
+  USER_ASTEROID_STORE,
+  COMET_STORE,
+  DOWNLOAD_STORE,
+  runMigrations,
+} from './migrations';
 
 const DB_NAME = 'SolarSystemDB';
-const DB_VERSION = 4; // Bumped to force re-parse with case-insensitive NEO/PHA
-const STORE_NAME = 'asteroids';
-const META_STORE = 'metadata';
+
+// NEO/PHA flags are stored as 0/1 so the neo and pha indexes can hold them;
+// booleans are not valid IndexedDB keys
+export type StoredFlag = 0 | 1;
 
 export interface Asteroid {
   id: string;
@@ -11,10 +28,13 @@ export interface Asteroid {
   full_name: string;
   pdes: string;
   name: string;
-  neo: boolean;
-  pha: boolean;
+  neo: StoredFlag;
+  pha: StoredFlag;
   H: number;
-  diameter: number;
+  diameter: number; // km, measured or estimated from H (see diameter.ts)
+  diameterMin: number;
+  diameterMax: number;
+  diameterSource: DiameterSource;
   albedo: number;
   diameter_sigma: number;
   orbit_id: string;
@@ -36,57 +56,126 @@ export interface Asteroid {
   moid_ld: number;
   class: string;
   rms: number;
+  // Validation rules this record failed (see validation.ts)
+  qualityFlags: QualityFlag[];
   // Computed values
   estimatedValue: number;
+  deltaV: number; // Rendezvous delta-v from LEO, km/s (see deltaV.ts)
+  tisserandJ: number; // Tisserand parameter relative to Jupiter; NaN for unbound orbits
   miningDifficulty: string;
   category: string;
   color: string;
 }
 
+// A comet from the main dataset, kept in its own store. Comets are placed
+// from their perihelion passage since many orbits have no mean anomaly.
+export interface Comet {
+  id: string;
+  spkid: number;
+  full_name: string;
+  pdes: string;
+  name: string;
+  prefix: string; // P periodic, C long-period, D defunct, X uncertain, I interstellar
+  q: number;
+  e: number;
+  i: number;
+  om: number;
+  w: number;
+  tp: number; // Time of perihelion passage (JD)
+  epoch: number;
+  a?: number; // Elliptic orbits only
+  per_y?: number;
+  // Magnitude m = M + 5 log10(delta) + K log10(r), total coma (M1/K1) and nucleus (M2/K2)
+  M1?: number;
+  K1?: number;
+  M2?: number;
+  K2?: number;
+  moid: number;
+  class: string;
+  category: string;
+}
+
+// A source row that could not be turned into an asteroid
+export interface RejectedRow {
+  line: number;
+  reason: string;
+  preview: string; // First few fields, enough to identify the catalog entry
+}
+
+// Result of diffing an incoming dataset against the stored catalog
+export interface CatalogChanges {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface ChangeLogEntry extends CatalogChanges {
+  version: string;
+  timestamp: number;
+}
+
+// Fields compared when deciding whether a stored asteroid changed
+const TRACKED_FIELDS: (keyof Asteroid)[] = [
+  'epoch', 'e', 'a', 'q', 'i', 'om', 'w', 'ma', 'H', 'diameter', 'albedo', 'moid', 'neo', 'pha', 'class', 'name',
+];
+
+const MAX_CHANGE_LOG_ENTRIES = 20;
+
+// Per-rule counts from the last validation pass over the main catalog
+export interface QualityReport {
+  counts: Partial<Record<QualityFlag, number>>;
+  checked: number;
+  timestamp: number;
+}
+
+// Serialized name search index (see searchIndex.ts); rows are column cache indexes
+export interface SearchIndexData {
+  tokens: string; // Sorted normalized tokens, each followed by '\n'
+  offsets: ArrayBuffer; // Uint32 start of each token in `tokens`, plus the end
+  rows: ArrayBuffer; // Uint32 row of each token
+  kinds: ArrayBuffer; // Uint8 source field of each token
+  nameWords: string; // Distinct name tokens joined by '\n', for typo matching
+  count: number; // Rows indexed; must match the column cache
+}
+
+// A catalog imported from a local file, kept apart from the main catalog
+export interface UserCatalog {
+  id: string;
+  name: string;
+  fileName: string;
+  count: number;
+  rejectedCount: number;
+  rejectedRows: RejectedRow[];
+  createdAt: number;
+}
+
+// Describes the columnar cache currently in COLUMN_STORE
+export interface ColumnCacheManifest {
+  count: number;
+  byteLength: number;
+  columns: string[];
+  timestamp: number;
+}
+
 let dbInstance: IDBPDatabase | null = null;
 
 async function getDB() {
   if (dbInstance) return dbInstance;
   
-  // First, check if we need to delete the old database
-  const databases = await indexedDB.databases?.() || [];
-  const existingDB = databases.find(db => db.name === DB_NAME);
-  
-  if (existingDB && existingDB.version !== DB_VERSION) {
-    console.log(`DB version mismatch (${existingDB.version} vs ${DB_VERSION}), deleting old database...`);
-    await new Promise<void>((resolve, reject) => {
-      const deleteRequest = indexedDB.deleteDatabase(DB_NAME);
-      deleteRequest.onsuccess = () => {
-        console.log('Old database deleted successfully');
-        resolve();
-      };
-      deleteRequest.onerror = () => reject(deleteRequest.error);
-      deleteRequest.onblocked = () => {
-        console.warn('Delete blocked, proceeding anyway...');
-        resolve();
-      };
-    });
-  }
-  
+  // Schema changes go through the migration registry so existing data
+  // (including any user-created stores) survives version bumps
   dbInstance = await openDB(DB_NAME, DB_VERSION, {
-    upgrade(db) {
-      console.log('Creating fresh database stores...');
-      
-      // Asteroids store with indexes
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        store.createIndex('name', 'name');
-        store.createIndex('class', 'class');
-        store.createIndex('estimatedValue', 'estimatedValue');
-        store.createIndex('diameter', 'diameter');
-        store.createIndex('neo', 'neo');
-        store.createIndex('pha', 'pha');
-      }
-      
-      // Metadata store
-      if (!db.objectStoreNames.contains(META_STORE)) {
-        db.createObjectStore(META_STORE, { keyPath: 'key' });
-      }
+    upgrade(db, oldVersion, newVersion, transaction) {
+      runMigrations(db, transaction, oldVersion, newVersion ?? DB_VERSION).catch((error) => {
+        console.error('Database migration failed:', error);
+        transaction.abort();
+      });
+    },
+    blocking() {
+      // Another tab (or the ingest worker) wants a newer version; let it upgrade
+      dbInstance?.close();
+      dbInstance = null;
     },
   });
   
@@ -124,6 +213,53 @@ export async function updatePartialLoadProgress(storedCount: number, totalExpect
   await db.put(META_STORE, { key: 'loadProgress', storedCount, totalExpected, timestamp: Date.now() });
 }
 
+// Raw bytes of a dataset download, saved in blocks so an interrupted download
+// can continue with a Range request instead of starting over
+export interface PartialDownload {
+  url: string;
+  validator: string; // Strong ETag or Last-Modified, sent as If-Range
+  bytes: number;
+  totalBytes: number | null;
+  blocks: number;
+}
+
+export async function getPartialDownload(): Promise<PartialDownload | null> {
+  const db = await getDB();
+  const meta = await db.get(META_STORE, 'download');
+  return meta ? meta.download : null;
+}
+
+export async function startPartialDownload(download: PartialDownload): Promise<void> {
+  await clearPartialDownload();
+  const db = await getDB();
+  await db.put(META_STORE, { key: 'download', download });
+}
+
+// The block and the byte count are committed together, so a crash never
+// records bytes that were not saved
+export async function appendDownloadBlock(download: PartialDownload, data: ArrayBuffer): Promise<PartialDownload> {
+  const db = await getDB();
+  const tx = db.transaction([DOWNLOAD_STORE, META_STORE], 'readwrite');
+  await tx.objectStore(DOWNLOAD_STORE).put({ seq: download.blocks, data });
+  const next = { ...download, bytes: download.bytes + data.byteLength, blocks: download.blocks + 1 };
+  await tx.objectStore(META_STORE).put({ key: 'download', download: next });
+  await tx.done;
+  return next;
+}
+
+export async function getDownloadBlock(seq: number): Promise<ArrayBuffer | undefined> {
+  const db = await getDB();
+  return (await db.get(DOWNLOAD_STORE, seq))?.data;
+}
+
+export async function clearPartialDownload(): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction([DOWNLOAD_STORE, META_STORE], 'readwrite');
+  await tx.objectStore(DOWNLOAD_STORE).clear();
+  await tx.objectStore(META_STORE).delete('download');
+  await tx.done;
+}
+
 export async function storeAsteroids(asteroids: Asteroid[]): Promise<void> {
   const db = await getDB();
   const tx = db.transaction(STORE_NAME, 'readwrite');
@@ -135,34 +271,232 @@ export async function storeAsteroids(asteroids: Asteroid[]): Promise<void> {
   await tx.done;
 }
 
+// Upsert a batch, counting which records are new or actually changed
+export async function applyAsteroidBatch(asteroids: Asteroid[]): Promise<Omit<CatalogChanges, 'removed'>> {
+  const db = await getDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const existing: (Asteroid | undefined)[] = await Promise.all(asteroids.map(a => tx.store.get(a.id)));
+
+  let added = 0;
+  let updated = 0;
+  let unchanged = 0;
+
+  for (let i = 0; i < asteroids.length; i++) {
+    const previous = existing[i];
+    if (!previous) {
+      added++;
+    } else if (TRACKED_FIELDS.some(field => previous[field] !== asteroids[i][field])) {
+      updated++;
+    } else {
+      unchanged++;
+      continue;
+    }
+    await tx.store.put(asteroids[i]);
+  }
+
+  await tx.done;
+  return { added, updated, unchanged };
+}
+
+// Delete every stored asteroid whose id is not in the new dataset
+export async function removeAsteroidsNotIn(ids: Set<string>): Promise<number> {
+  const db = await getDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  let removed = 0;
+
+  let cursor = await tx.store.openCursor();
+  while (cursor) {
+    if (!ids.has(cursor.key as string)) {
+      await cursor.delete();
+      removed++;
+    }
+    cursor = await cursor.continue();
+  }
+
+  await tx.done;
+  return removed;
+}
+
+// Drop the asteroid catalog, leaving metadata and user catalogs alone
+export async function clearAsteroids(): Promise<void> {
+  const db = await getDB();
+  await db.clear(STORE_NAME);
+}
+
+// Record which dataset version is stored and append to the change log
+export async function recordDatasetVersion(version: string, changes: CatalogChanges): Promise<void> {
+  const db = await getDB();
+  const log = await db.get(META_STORE, 'changeLog');
+  const entries: ChangeLogEntry[] = log?.entries || [];
+  entries.unshift({ version, timestamp: Date.now(), ...changes });
+
+  await db.put(META_STORE, { key: 'datasetVersion', value: version, timestamp: Date.now() });
+  await db.put(META_STORE, { key: 'changeLog', entries: entries.slice(0, MAX_CHANGE_LOG_ENTRIES) });
+}
+
+export async function getDatasetInfo(): Promise<{ version: string | null; changeLog: ChangeLogEntry[] }> {
+  const db = await getDB();
+  const version = await db.get(META_STORE, 'datasetVersion');
+  const log = await db.get(META_STORE, 'changeLog');
+  return { version: version?.value ?? null, changeLog: log?.entries || [] };
+}
+
 export async function markDataLoaded(): Promise<void> {
   const db = await getDB();
   await db.put(META_STORE, { key: 'dataLoaded', value: true, timestamp: Date.now() });
 }
 
-export async function getAsteroidsByPage(page: number, pageSize: number): Promise<Asteroid[]> {
+// Quarantine list of malformed rows from the last ingest
+export async function storeRejectedRows(rows: RejectedRow[], total: number): Promise<void> {
+  const db = await getDB();
+  await db.put(META_STORE, { key: 'rejectedRows', rows, total, timestamp: Date.now() });
+}
+
+export async function getRejectedRows(): Promise<{ rows: RejectedRow[]; total: number }> {
+  const db = await getDB();
+  const meta = await db.get(META_STORE, 'rejectedRows');
+  return { rows: meta?.rows || [], total: meta?.total || 0 };
+}
+
+export async function storeQualityReport(report: QualityReport): Promise<void> {
+  const db = await getDB();
+  await db.put(META_STORE, { key: 'qualityReport', ...report });
+}
+
+export async function getQualityReport(): Promise<QualityReport | null> {
+  const db = await getDB();
+  const meta = await db.get(META_STORE, 'qualityReport');
+  if (!meta) return null;
+  return { counts: meta.counts, checked: meta.checked, timestamp: meta.timestamp };
+}
+
+// Page through the asteroids that failed one validation rule
+export async function getAsteroidsByQualityFlag(
+  flag: QualityFlag,
+  page: number = 0,
+  pageSize: number = 50
+): Promise<{ results: Asteroid[]; total: number }> {
   const db = await getDB();
   const tx = db.transaction(STORE_NAME, 'readonly');
-  const store = tx.store;
-  
-  let cursor = await store.openCursor();
+  const index = tx.store.index('qualityFlags');
+  const total = await index.count(flag);
   const results: Asteroid[] = [];
-  let skipped = 0;
-  const skipCount = page * pageSize;
-  
-  while (cursor) {
-    if (skipped < skipCount) {
-      skipped++;
-      cursor = await cursor.continue();
-      continue;
-    }
-    
-    if (results.length >= pageSize) break;
+
+  let cursor = await index.openCursor(flag);
+  if (cursor && page > 0) {
+    cursor = await cursor.advance(page * pageSize);
+  }
+  while (cursor && results.length < pageSize) {
     results.push(cursor.value);
     cursor = await cursor.continue();
   }
-  
-  return results;
+
+  return { results, total };
+}
+
+// Orderings the asteroid list can page through, each backed by an index
+export type SortField = 'value' | 'diameter' | 'a' | 'H' | 'moid' | 'deltaV' | 'name';
+
+export interface SortOrder {
+  field: SortField;
+  direction: 'asc' | 'desc';
+}
+
+const SORT_INDEXES: Record<SortField, string> = {
+  value: 'estimatedValue',
+  diameter: 'diameter',
+  a: 'a',
+  H: 'H',
+  moid: 'moid',
+  deltaV: 'deltaV',
+  name: 'name',
+};
+
+// The same orderings over rows already in memory, such as an imported catalog.
+// Unnamed objects go last when sorting by name.
+export function sortAsteroids(asteroids: Asteroid[], sort: SortOrder): Asteroid[] {
+  const key = SORT_INDEXES[sort.field] as 'estimatedValue' | 'diameter' | 'a' | 'H' | 'moid' | 'deltaV' | 'name';
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...asteroids].sort((x, y) => {
+    if (key === 'name') {
+      if (!x.name || !y.name) return Number(!x.name) - Number(!y.name);
+      return x.name.localeCompare(y.name) * direction;
+    }
+    return ((x[key] || 0) - (y[key] || 0)) * direction;
+  });
+}
+
+// Unnamed objects store '' and are left out of the name ordering
+function sortRange(field: SortField): IDBKeyRange | null {
+  return field === 'name' ? IDBKeyRange.lowerBound('', true) : null;
+}
+
+// Page cursors are opaque to callers: the sort key and id of the last row shown
+function encodePageCursor(key: IDBValidKey, id: string): string {
+  return btoa(encodeURIComponent(JSON.stringify([key, id])));
+}
+
+function decodePageCursor(token: string): [string | number, string] {
+  try {
+    const [key, id] = JSON.parse(decodeURIComponent(atob(token)));
+    if ((typeof key === 'string' || typeof key === 'number') && typeof id === 'string') return [key, id];
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid page cursor');
+}
+
+// One page of the whole catalog in sort order. Rows are read straight off the
+// sort index and filtered with the query, and the next page resumes after the
+// last returned row, so no page ever skips over earlier ones.
+export async function getSortedAsteroidPage(
+  query: ParsedQuery,
+  sort: SortOrder,
+  pageCursor: string | null,
+  pageSize: number = 50
+): Promise<{ results: Asteroid[]; nextCursor: string | null }> {
+  const db = await getDB();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const index = tx.store.index(SORT_INDEXES[sort.field]);
+  const direction = sort.direction === 'asc' ? 'next' : 'prev';
+
+  let cursor = await index.openCursor(sortRange(sort.field), direction);
+  if (cursor && pageCursor) {
+    const [key, id] = decodePageCursor(pageCursor);
+    const order = indexedDB.cmp(cursor.key, key) || indexedDB.cmp(cursor.primaryKey, id);
+    // continuePrimaryKey() only moves forward, and the last row itself is skipped
+    if (direction === 'next' ? order < 0 : order > 0) cursor = await cursor.continuePrimaryKey(key, id);
+    if (cursor && indexedDB.cmp(cursor.key, key) === 0 && cursor.primaryKey === id) cursor = await cursor.continue();
+  }
+
+  const results: Asteroid[] = [];
+  while (cursor && results.length < pageSize) {
+    if (matchesQuery(cursor.value, query)) results.push(cursor.value);
+    if (results.length < pageSize) cursor = await cursor.continue();
+  }
+
+  const nextCursor = cursor && results.length === pageSize ? encodePageCursor(cursor.key, String(cursor.primaryKey)) : null;
+  return { results, nextCursor };
+}
+
+// Rows a sorted listing will cover, counted over the same index and range the
+// pages are read from, so rows the sort index leaves out are not counted
+export async function countSortedAsteroids(query: ParsedQuery, sort: SortOrder): Promise<{ total: number; plan: string }> {
+  const db = await getDB();
+  const indexName = SORT_INDEXES[sort.field];
+  const index = db.transaction(STORE_NAME, 'readonly').store.index(indexName);
+  const rows = sort.field === 'name' ? 'Named asteroids' : `Asteroids with ${indexName}`;
+  if (query.terms.length === 0) {
+    return { total: await index.count(sortRange(sort.field)), plan: `${rows}, sorted by ${indexName} index` };
+  }
+
+  let total = 0;
+  let cursor = await index.openCursor(sortRange(sort.field));
+  while (cursor) {
+    if (matchesQuery(cursor.value, query)) total++;
+    cursor = await cursor.continue();
+  }
+  return { total, plan: `${rows}, full scan of ${indexName} index` };
 }
 
 export async function searchAsteroids(
@@ -197,6 +531,96 @@ export async function searchAsteroids(
   };
 }
 
+function candidateRange(candidate: IndexCandidate): IDBKeyRange | null {
+  if (candidate.only !== undefined) return IDBKeyRange.only(candidate.only);
+  const { lower, upper, lowerOpen, upperOpen } = candidate;
+  if (lower !== undefined && upper !== undefined) {
+    // An empty or inverted range matches nothing; IDBKeyRange.bound would throw
+    if (lower > upper || (lower === upper && (lowerOpen || upperOpen))) return null;
+    return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+  }
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower, lowerOpen);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper, upperOpen);
+  return null;
+}
+
+// Run a parsed filter query. The narrowest usable index drives the cursor and
+// every term is re-checked on each record; without one the whole store is scanned.
+// `ranked` (ids from the search index, best first) replaces the cursor entirely.
+// The total always covers the whole catalog, not just the returned page.
+export async function queryAsteroids(
+  query: ParsedQuery,
+  page: number = 0,
+  pageSize: number = 50,
+  ranked?: { ids: string[]; total: number }
+): Promise<{ results: Asteroid[]; total: number; plan: string }> {
+  const db = await getDB();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const start = page * pageSize;
+
+  if (ranked) {
+    const results: Asteroid[] = [];
+    if (query.terms.length === 0) {
+      for (const id of ranked.ids.slice(start, start + pageSize)) {
+        const asteroid = await tx.store.get(id);
+        if (asteroid) results.push(asteroid);
+      }
+      return { results, total: ranked.total, plan: 'Search index' };
+    }
+
+    let total = 0;
+    for (const id of ranked.ids) {
+      const asteroid: Asteroid | undefined = await tx.store.get(id);
+      if (!asteroid || !matchesQuery(asteroid, query)) continue;
+      if (total >= start && results.length < pageSize) results.push(asteroid);
+      total++;
+    }
+    return { results, total, plan: `Search index, top ${ranked.ids.length.toLocaleString()} filtered` };
+  }
+
+  let best: { candidate: IndexCandidate; range: IDBKeyRange; count: number } | null = null;
+  for (const candidate of indexCandidates(query)) {
+    const range = candidateRange(candidate);
+    if (!range) return { results: [], total: 0, plan: `Empty ${candidate.index} range` };
+    const count = await tx.store.index(candidate.index).count(range);
+    if (!best || count < best.count) best = { candidate, range, count };
+  }
+
+  // A single indexed term needs no re-check: count it and skip straight to the page
+  if (query.terms.length === 0 || (best && query.terms.length === 1)) {
+    const total = best ? best.count : await tx.store.count();
+    let cursor = best
+      ? await tx.store.index(best.candidate.index).openCursor(best.range)
+      : await tx.store.openCursor();
+    if (cursor && start > 0) cursor = await cursor.advance(start);
+
+    const results: Asteroid[] = [];
+    while (cursor && results.length < pageSize) {
+      results.push(cursor.value);
+      cursor = await cursor.continue();
+    }
+    return { results, total, plan: best ? `${best.candidate.index} index` : 'All asteroids' };
+  }
+
+  let cursor = best
+    ? await tx.store.index(best.candidate.index).openCursor(best.range)
+    : await tx.store.openCursor();
+  const results: Asteroid[] = [];
+  let total = 0;
+
+  while (cursor) {
+    const asteroid = cursor.value as Asteroid;
+    if (matchesQuery(asteroid, query)) {
+      if (total >= start && results.length < pageSize) results.push(asteroid);
+      total++;
+    }
+    cursor = await cursor.continue();
+  }
+
+  const plan = best ? `${best.candidate.index} index, ${best.count.toLocaleString()} candidates` : 'Full scan';
+  return { results, total, plan };
+}
+
 export async function getAsteroidsByClass(asteroidClass: string): Promise<Asteroid[]> {
   const db = await getDB();
   const tx = db.transaction(STORE_NAME, 'readonly');
@@ -208,6 +632,12 @@ export async function getAsteroidById(id: string): Promise<Asteroid | undefined>
   return await db.get(STORE_NAME, id);
 }
 
+// Asteroids whose orbit passes within maxMoid AU of Earth's; rows without a MOID are not indexed
+export async function getAsteroidsWithinMoid(maxMoid: number): Promise<Asteroid[]> {
+  const db = await getDB();
+  return await db.getAllFromIndex(STORE_NAME, 'moid', IDBKeyRange.upperBound(maxMoid));
+}
+
 export async function getAllAsteroids(): Promise<Asteroid[]> {
   const db = await getDB();
   return await db.getAll(STORE_NAME);
@@ -229,60 +659,178 @@ export async function getTopValuedAsteroids(limit: number = 100): Promise<Astero
   return results;
 }
 
-export async function getStatistics(): Promise<{
-  totalCount: number;
-  totalValue: number;
-  neoCount: number;
-  phaCount: number;
-  classCounts: Record<string, number>;
-}> {
+// Stored aggregates from the last cache build. Databases that predate them (or
+// an interrupted build) fall back to one scan of the asteroid store.
+export async function getStatistics(): Promise<CatalogStatistics> {
   const db = await getDB();
-  const tx = db.transaction(STORE_NAME, 'readonly');
-  const store = tx.store;
-  
-  let cursor = await store.openCursor();
-  let totalCount = 0;
-  let totalValue = 0;
-  let neoCount = 0;
-  let phaCount = 0;
-  const classCounts: Record<string, number> = {};
-  
+  const meta = await db.get(META_STORE, 'statistics');
+  if (meta) return meta.stats;
+
+  const builder = new CatalogStatsBuilder();
+  let cursor = await db.transaction(STORE_NAME, 'readonly').store.openCursor();
   while (cursor) {
-    const asteroid = cursor.value as Asteroid;
-    totalCount++;
-    totalValue += asteroid.estimatedValue || 0;
-    if (asteroid.neo) neoCount++;
-    if (asteroid.pha) phaCount++;
-    classCounts[asteroid.class] = (classCounts[asteroid.class] || 0) + 1;
+    builder.add(cursor.value);
     cursor = await cursor.continue();
   }
-  
-  return { totalCount, totalValue, neoCount, phaCount, classCounts };
+  return builder.finish();
+}
+
+export async function storeStatistics(stats: CatalogStatistics): Promise<void> {
+  const db = await getDB();
+  await db.put(META_STORE, { key: 'statistics', stats });
+}
+
+export async function hasStatistics(): Promise<boolean> {
+  const db = await getDB();
+  return (await db.getKey(META_STORE, 'statistics')) !== undefined;
+}
+
+// Commodity prices the stored estimatedValues were computed with
+export async function getPriceTable(): Promise<PriceTable> {
+  const db = await getDB();
+  const meta = await db.get(META_STORE, 'priceTable');
+  return normalizePrices(meta?.prices);
+}
+
+export async function storePriceTable(prices: PriceTable): Promise<void> {
+  const db = await getDB();
+  await db.put(META_STORE, { key: 'priceTable', prices });
 }
 
 export async function clearDatabase(): Promise<void> {
   const db = await getDB();
   await db.clear(STORE_NAME);
   await db.clear(META_STORE);
+  await db.clear(COLUMN_STORE);
+  await db.clear(COMET_STORE);
+  await db.clear(DOWNLOAD_STORE);
 }
 
-// Stream asteroids from cache with progress callback
-export async function streamAsteroidsFromCache(
-  onProgress: (loaded: number, total: number) => void
-): Promise<Asteroid[]> {
+// Replace the stored comets with the ones from the latest ingest
+export async function replaceComets(comets: Comet[]): Promise<void> {
   const db = await getDB();
-  const total = await db.count(STORE_NAME);
-  
-  if (total === 0) return [];
-  
-  // Use getAll for efficiency - IndexedDB transactions can't survive async delays
-  // Progress updates are done in chunks after fetching
-  onProgress(0, total);
-  
-  const allAsteroids = await db.getAll(STORE_NAME);
-  
-  // Report final progress
-  onProgress(allAsteroids.length, total);
-  
-  return allAsteroids;
+  const tx = db.transaction(COMET_STORE, 'readwrite');
+  await tx.store.clear();
+  for (const comet of comets) {
+    await tx.store.put(comet);
+  }
+  await tx.done;
+}
+
+// Comets number in the thousands, so they are always read in one go
+export async function getAllComets(): Promise<Comet[]> {
+  const db = await getDB();
+  return await db.getAll(COMET_STORE);
+}
+
+// Read asteroids in primary-key order, one page after another
+export async function getAsteroidBatchAfter(afterId: string | null, limit: number): Promise<Asteroid[]> {
+  const db = await getDB();
+  const range = afterId === null ? null : IDBKeyRange.lowerBound(afterId, true);
+  return await db.getAll(STORE_NAME, range, limit);
+}
+
+// Replace the columnar cache; buffers and manifest are written in one transaction
+export async function storeColumnCache(count: number, buffers: Record<string, ArrayBuffer>): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction([COLUMN_STORE, META_STORE], 'readwrite');
+  const columnStore = tx.objectStore(COLUMN_STORE);
+  await columnStore.clear();
+
+  let byteLength = 0;
+  for (const [name, buffer] of Object.entries(buffers)) {
+    await columnStore.put({ name, buffer });
+    byteLength += buffer.byteLength;
+  }
+
+  const manifest: ColumnCacheManifest = { count, byteLength, columns: Object.keys(buffers), timestamp: Date.now() };
+  await tx.objectStore(META_STORE).put({ key: 'columnCache', ...manifest });
+  await tx.done;
+}
+
+export async function getColumnCacheManifest(): Promise<ColumnCacheManifest | null> {
+  const db = await getDB();
+  const meta = await db.get(META_STORE, 'columnCache');
+  if (!meta) return null;
+  return { count: meta.count, byteLength: meta.byteLength, columns: meta.columns, timestamp: meta.timestamp };
+}
+
+export async function getColumnBuffer(name: string): Promise<ArrayBuffer | undefined> {
+  const db = await getDB();
+  const entry = await db.get(COLUMN_STORE, name);
+  return entry?.buffer;
+}
+
+// Mark the columnar cache, search index and statistics stale before the asteroid store is modified
+export async function invalidateDerivedCaches(): Promise<void> {
+  const db = await getDB();
+  await db.delete(META_STORE, 'columnCache');
+  await db.delete(META_STORE, 'searchIndex');
+  await db.delete(META_STORE, 'statistics');
+}
+
+export async function storeSearchIndex(data: SearchIndexData): Promise<void> {
+  const db = await getDB();
+  await db.put(META_STORE, { key: 'searchIndex', ...data });
+}
+
+export async function getSearchIndexData(): Promise<SearchIndexData | null> {
+  const db = await getDB();
+  const meta = await db.get(META_STORE, 'searchIndex');
+  if (!meta) return null;
+  const { tokens, offsets, rows, kinds, nameWords, count } = meta;
+  return { tokens, offsets, rows, kinds, nameWords, count };
+}
+
+export async function hasSearchIndex(): Promise<boolean> {
+  const db = await getDB();
+  return (await db.getKey(META_STORE, 'searchIndex')) !== undefined;
+}
+
+export async function putUserCatalog(catalog: UserCatalog): Promise<void> {
+  const db = await getDB();
+  await db.put(USER_CATALOG_STORE, catalog);
+}
+
+export async function storeUserAsteroids(catalogId: string, asteroids: Asteroid[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(USER_ASTEROID_STORE, 'readwrite');
+
+  for (const asteroid of asteroids) {
+    await tx.store.put({ ...asteroid, catalogId });
+  }
+
+  await tx.done;
+}
+
+export async function getUserCatalogs(): Promise<UserCatalog[]> {
+  const db = await getDB();
+  const catalogs: UserCatalog[] = await db.getAll(USER_CATALOG_STORE);
+  return catalogs.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getUserCatalogAsteroids(catalogId: string, limit?: number): Promise<Asteroid[]> {
+  const db = await getDB();
+  return await db.getAllFromIndex(USER_ASTEROID_STORE, 'catalogId', catalogId, limit);
+}
+
+export async function getUserAsteroid(catalogId: string, id: string): Promise<Asteroid | undefined> {
+  const db = await getDB();
+  return await db.get(USER_ASTEROID_STORE, [catalogId, id]);
+}
+
+// Remove a user catalog and every asteroid imported into it
+export async function deleteUserCatalog(catalogId: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction([USER_CATALOG_STORE, USER_ASTEROID_STORE], 'readwrite');
+  const asteroids = tx.objectStore(USER_ASTEROID_STORE);
+
+  let cursor = await asteroids.index('catalogId').openKeyCursor(catalogId);
+  while (cursor) {
+    await asteroids.delete(cursor.primaryKey);
+    cursor = await cursor.continue();
+  }
+
+  await tx.objectStore(USER_CATALOG_STORE).delete(catalogId);
+  await tx.done;
 }
@@ -0,0 +1,583 @@
+import {
+  type Asteroid,
+  type CatalogChanges,
+  type RejectedRow,
+  storeAsteroids,
+  storeRejectedRows,
+  markDataLoaded,
+  getPartialLoadProgress,
+  updatePartialLoadProgress,
+  applyAsteroidBatch,
+  removeAsteroidsNotIn,
+  clearAsteroids,
+  recordDatasetVersion,
+  invalidateDerivedCaches,
+  getCachedCount,
+  getAsteroidBatchAfter,
+  type UserCatalog,
+  putUserCatalog,
+  storeUserAsteroids,
+  deleteUserCatalog,
+  type QualityReport,
+  storeQualityReport,
+  storeStatistics,
+  type Comet,
+  replaceComets,
+  getPriceTable,
+  storePriceTable,
+  getUserCatalogs,
+  getUserCatalogAsteroids,
+  type PartialDownload,
+  getPartialDownload,
+  startPartialDownload,
+  appendDownloadBlock,
+  getDownloadBlock,
+  clearPartialDownload,
+} from './indexedDB';
+import { enrichAsteroid, estimateValue } from './enrichment';
+import { type PriceTable } from './valuation';
+import { AsteroidColumnsBuilder } from './columnarCache';
+import { SearchIndexBuilder } from './searchIndex';
+import { CatalogStatsBuilder } from './catalogStats';
+import { isCometRow, toComet } from './comets';
+import {
+  type CatalogParser,
+  type ColumnMapping,
+  type ParsedRow,
+  SNIFF_LENGTH,
+  detectImporter,
+  createMappedCsvParser,
+} from './importers';
+import { type LoadProgress } from './dataLoader';
+import {
+  datasetCompression,
+  datasetFileName,
+  datasetTotalBytes,
+  datasetVersion,
+  decompressDataset,
+  rangeValidator,
+} from './datasetSource';
+
+// Messages exchanged with loadAsteroidData on the main thread
+// 'full' fills an empty store; 'update' diffs the new dataset against the stored one
+export type IngestMode = 'full' | 'update';
+
+// 'build-caches' only regenerates the columnar cache and search index from the stored catalog;
+// 'import-file' reads a local file into a new user catalog;
+// 'revalue' stores a new price table and recomputes every estimatedValue with it
+export type IngestRequest =
+  | { type: 'start'; url: string; mode: IngestMode }
+  | { type: 'build-caches' }
+  | { type: 'revalue'; prices: PriceTable }
+  | { type: 'import-file'; file: File; catalogName: string; delimiter: string; mapping: ColumnMapping };
+
+export type IngestResponse =
+  | { type: 'progress'; progress: LoadProgress }
+  | { type: 'done'; count: number; changes?: CatalogChanges }
+  | { type: 'error'; message: string };
+
+const STORE_BATCH_SIZE = 5000;
+const CACHE_BATCH_SIZE = 10000;
+const MAX_REJECTED_ROWS = 1000; // Rows kept for display; the total is always counted
+const MAX_USER_REJECTED_ROWS = 100;
+const PROGRESS_INTERVAL_MS = 100;
+const DOWNLOAD_BLOCK_SIZE = 4 * 1024 * 1024; // Raw bytes saved per IndexedDB write
+
+function post(message: IngestResponse): void {
+  self.postMessage(message);
+}
+
+// One primary-key-order scan feeds the columnar cache, the search index and the
+// catalog statistics, so a search index row is the same number as its column index
+async function buildDerivedCaches(): Promise<number> {
+  const total = await getCachedCount();
+  const columns = new AsteroidColumnsBuilder(total);
+  const search = new SearchIndexBuilder();
+  const stats = new CatalogStatsBuilder();
+  let row = 0;
+  let afterId: string | null = null;
+  let lastProgressAt = 0;
+
+  while (row < total) {
+    const batch = await getAsteroidBatchAfter(afterId, CACHE_BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    for (const asteroid of batch) {
+      if (row >= total) break;
+      columns.add(asteroid);
+      search.add(asteroid, row++);
+      stats.add(asteroid);
+    }
+    afterId = batch[batch.length - 1].id;
+
+    const now = performance.now();
+    if (row < total && now - lastProgressAt < PROGRESS_INTERVAL_MS) continue;
+    lastProgressAt = now;
+    post({
+      type: 'progress',
+      progress: {
+        phase: 'storing',
+        current: row,
+        total,
+        message: `Building caches and statistics... ${row.toLocaleString()} / ${total.toLocaleString()}`
+      }
+    });
+  }
+
+  await columns.finish();
+  await search.finish(row);
+  await storeStatistics(stats.finish());
+  return row;
+}
+
+// Re-price the whole catalog and user catalogs. Values feed the estimatedValue
+// index and the statistics totals, so the derived caches are rebuilt afterwards.
+async function revalue(prices: PriceTable): Promise<number> {
+  await storePriceTable(prices);
+  await invalidateDerivedCaches();
+
+  const total = await getCachedCount();
+  let count = 0;
+  let afterId: string | null = null;
+  while (true) {
+    const batch = await getAsteroidBatchAfter(afterId, STORE_BATCH_SIZE);
+    if (batch.length === 0) break;
+    afterId = batch[batch.length - 1].id;
+
+    for (const asteroid of batch) {
+      asteroid.estimatedValue = estimateValue(asteroid, prices);
+    }
+    await storeAsteroids(batch);
+    count += batch.length;
+
+    post({
+      type: 'progress',
+      progress: {
+        phase: 'storing',
+        current: count,
+        total,
+        message: `Revaluing asteroids... ${count.toLocaleString()} / ${total.toLocaleString()}`
+      }
+    });
+  }
+
+  // User catalogs are small enough to re-price in one go each
+  for (const catalog of await getUserCatalogs()) {
+    const asteroids = await getUserCatalogAsteroids(catalog.id);
+    for (const asteroid of asteroids) {
+      asteroid.estimatedValue = estimateValue(asteroid, prices);
+    }
+    await storeUserAsteroids(catalog.id, asteroids);
+  }
+
+  await buildDerivedCaches();
+  return count;
+}
+
+interface DatasetStream {
+  // Decompressed file contents from the first byte
+  reader: ReadableStreamDefaultReader<Uint8Array>;
+  version: string;
+  totalBytes: number | null;
+  resumedBytes: number;
+  // A saved partial download was discarded because the file or URL changed
+  restarted: boolean;
+}
+
+// Open the dataset for reading from the start. Bytes saved by an interrupted
+// run are replayed from IndexedDB and only the rest is requested, with If-Range
+// so a changed file is sent whole instead. Replaying through the parser is
+// needed anyway for compressed files, whose stream cannot be entered midway.
+async function openDataset(url: string, onRawBytes: (bytes: number) => void): Promise<DatasetStream> {
+  let partial = await getPartialDownload();
+  let restarted = false;
+  if (partial && partial.url !== url) {
+    await clearPartialDownload();
+    partial = null;
+    restarted = true;
+  }
+
+  const complete = partial !== null && partial.totalBytes !== null && partial.bytes >= partial.totalBytes;
+  const headers: HeadersInit = partial ? { Range: `bytes=${partial.bytes}-`, 'If-Range': partial.validator } : {};
+  const response = await fetch(url, { headers });
+
+  if (!(response.status === 416 && complete) && !response.ok) {
+    // A saved range the server no longer satisfies is useless on the next try too
+    if (response.status === 416) await clearPartialDownload();
+    throw new Error(`Failed to fetch dataset: ${response.status} ${response.statusText}`);
+  }
+  if (partial && response.status === 200) {
+    await clearPartialDownload();
+    partial = null;
+    restarted = true;
+  }
+
+  const totalBytes = datasetTotalBytes(response.headers) ?? partial?.totalBytes ?? null;
+  const version = datasetVersion(response.headers) || `imported:${new Date().toISOString()}`;
+  // The browser hands over decoded bytes for Content-Encoding responses, so
+  // their offsets would not match a Range request
+  if (!partial && !response.headers.get('Content-Encoding')) {
+    const validator = rangeValidator(response.headers);
+    if (validator) {
+      partial = { url, validator, bytes: 0, totalBytes, blocks: 0 };
+      await startPartialDownload(partial);
+    }
+  }
+
+  const resumedBytes = partial?.bytes ?? 0;
+  const storedBlocks = partial?.blocks ?? 0;
+  const network = response.status === 416 ? null : response.body?.getReader();
+  if (network === undefined) throw new Error('Cannot read response body');
+
+  let download: PartialDownload | null = partial;
+  let seq = 0;
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+
+  const saveBlock = async () => {
+    if (!download || pendingBytes === 0) return;
+    const block = new Uint8Array(pendingBytes);
+    let offset = 0;
+    for (const chunk of pending) {
+      block.set(chunk, offset);
+      offset += chunk.length;
+    }
+    pending = [];
+    pendingBytes = 0;
+    download = await appendDownloadBlock(download, block.buffer);
+  };
+
+  const raw = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (seq < storedBlocks) {
+        const block = await getDownloadBlock(seq++);
+        if (!block) throw new Error('Saved download is incomplete; clear the cache and reload');
+        onRawBytes(block.byteLength);
+        controller.enqueue(new Uint8Array(block));
+        return;
+      }
+
+      const result = network ? await network.read() : { done: true as const, value: undefined };
+      if (result.done) {
+        await saveBlock();
+        controller.close();
+        return;
+      }
+
+      onRawBytes(result.value.length);
+      if (download) {
+        pending.push(result.value);
+        pendingBytes += result.value.length;
+        if (pendingBytes >= DOWNLOAD_BLOCK_SIZE) await saveBlock();
+      }
+      controller.enqueue(result.value);
+    },
+  });
+
+  const contents = decompressDataset(raw, datasetCompression(url), response.headers);
+  return { reader: contents.getReader(), version, totalBytes, resumedBytes, restarted };
+}
+
+// Download, parse, enrich and store the dataset while bytes are still arriving.
+// Nothing larger than one network chunk plus one store batch is held in memory.
+async function ingest(url: string, mode: IngestMode): Promise<{ count: number; changes: CatalogChanges }> {
+  post({ type: 'progress', progress: { phase: 'checking', current: 0, total: 100, message: 'Checking cache...' } });
+
+  // Check for partial loading (interrupted download); updates always diff the whole file
+  const partialProgress = await getPartialLoadProgress();
+  const alreadyStored = partialProgress.isComplete || mode === 'update' ? 0 : partialProgress.storedCount;
+  const prices = await getPriceTable();
+
+  // The store is about to change; the columnar cache is rebuilt at the end
+  await invalidateDerivedCaches();
+
+  if (alreadyStored > 0) {
+    post({
+      type: 'progress',
+      progress: {
+        phase: 'checking',
+        current: 50,
+        total: 100,
+        message: `Found ${alreadyStored.toLocaleString()} partially stored asteroids, resuming...`
+      }
+    });
+  }
+
+  // Rows before this index were committed by a previous run and are skipped
+  let skipUntil = Math.floor(alreadyStored / STORE_BATCH_SIZE) * STORE_BATCH_SIZE;
+
+  post({ type: 'progress', progress: { phase: 'downloading', current: 0, total: 100, message: 'Downloading asteroid data...' } });
+
+  // Raw (possibly compressed) bytes, replayed ones included
+  let received = 0;
+  const { reader, version, totalBytes, resumedBytes, restarted } = await openDataset(url, bytes => {
+    received += bytes;
+  });
+  // Kept in the download message so it stays visible for the whole run
+  const resumeNote = resumedBytes > 0
+    ? ` (resumed after ${(resumedBytes / 1024 / 1024).toFixed(1)} MB)`
+    : restarted ? ' (dataset changed since the interrupted download, started over)' : '';
+  // The committed rows came from a different file, so their count says nothing
+  // about this one; start the catalog over
+  if (restarted && skipUntil > 0) {
+    await clearAsteroids();
+    await updatePartialLoadProgress(0, 0);
+    skipUntil = 0;
+  }
+
+  const decoder = new TextDecoder();
+  const fileName = datasetFileName(url);
+  let parser: CatalogParser | null = null;
+  let format = ''; // Importer label, shown once the format is detected
+  let head = '';
+  let rowCount = 0;
+  let storedSoFar = skipUntil;
+  let batch: Asteroid[] = [];
+  let lastProgressAt = 0;
+  const rejected: RejectedRow[] = [];
+  let rejectedCount = 0;
+  const changes: CatalogChanges = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+  const seenIds = new Set<string>();
+  const quality: QualityReport = { counts: {}, checked: 0, timestamp: 0 };
+  // Comets go to their own store; there are few enough to keep until the end
+  const comets: Comet[] = [];
+
+  const reportProgress = (force: boolean) => {
+    const now = performance.now();
+    if (!force && now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+    lastProgressAt = now;
+
+    // Without a known size the bar stays empty and only the byte count moves
+    post({
+      type: 'progress',
+      progress: {
+        phase: 'downloading',
+        current: received,
+        total: totalBytes ?? 0,
+        message: `Downloading${format ? ` ${format}` : ''}... ${(received / 1024 / 1024).toFixed(1)} MB${totalBytes ? ` / ${(totalBytes / 1024 / 1024).toFixed(1)} MB` : ''}${resumeNote} · ${rowCount.toLocaleString()} asteroids parsed${rejectedCount > 0 ? `, ${rejectedCount.toLocaleString()} rejected` : ''}`
+      }
+    });
+  };
+
+  const flushBatch = async () => {
+    if (batch.length === 0) return;
+    if (mode === 'update') {
+      const result = await applyAsteroidBatch(batch);
+      changes.added += result.added;
+      changes.updated += result.updated;
+      changes.unchanged += result.unchanged;
+    } else {
+      await storeAsteroids(batch);
+      changes.added += batch.length;
+    }
+    storedSoFar += batch.length;
+    batch = [];
+
+    // Update partial progress so we can resume if interrupted
+    await updatePartialLoadProgress(storedSoFar, 0);
+  };
+
+  const reject = (row: ParsedRow, reason: string) => {
+    rejectedCount++;
+    if (rejected.length < MAX_REJECTED_ROWS) {
+      rejected.push({ line: row.line, reason, preview: row.preview });
+    }
+  };
+
+  const handleRows = (rows: ParsedRow[]) => {
+    for (const row of rows) {
+      if (row.error || !row.fields) {
+        reject(row, row.error || 'Unparseable row');
+        continue;
+      }
+
+      if (!row.fields.id) {
+        reject(row, 'Missing id');
+        continue;
+      }
+
+      if (isCometRow(row.fields)) {
+        const comet = toComet(row.fields);
+        if (typeof comet === 'string') reject(row, comet);
+        else comets.push(comet);
+        continue;
+      }
+
+      rowCount++;
+      if (mode === 'update') seenIds.add(row.fields.id);
+
+      // Validate rows committed by an interrupted run too so the report covers the whole file
+      const asteroid = enrichAsteroid(row.fields, prices);
+      quality.checked++;
+      for (const flag of asteroid.qualityFlags) {
+        quality.counts[flag] = (quality.counts[flag] || 0) + 1;
+      }
+
+      if (rowCount <= skipUntil) continue;
+      batch.push(asteroid);
+    }
+  };
+
+  // Pick the importer from the first few KB, then stream everything through it
+  const handleText = (text: string, final: boolean) => {
+    if (!parser) {
+      head += text;
+      if (head.length < SNIFF_LENGTH && !final) return;
+
+      const importer = detectImporter(head, fileName);
+      format = importer.label;
+      parser = importer.createParser();
+      text = head;
+      head = '';
+    }
+
+    handleRows(parser.push(text));
+    if (final) handleRows(parser.end());
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    handleText(decoder.decode(value, { stream: true }), false);
+
+    if (batch.length >= STORE_BATCH_SIZE) {
+      await flushBatch();
+    }
+
+    reportProgress(false);
+  }
+
+  handleText(decoder.decode(), true);
+  reportProgress(true);
+
+  post({ type: 'progress', progress: { phase: 'storing', current: storedSoFar, total: rowCount, message: 'Storing in database...' } });
+  await flushBatch();
+
+  if (mode === 'update') {
+    // An empty or unreadable file must never be treated as "every object retired"
+    if (rowCount === 0) throw new Error('New dataset contains no asteroids; keeping the stored catalog');
+    post({ type: 'progress', progress: { phase: 'storing', current: storedSoFar, total: rowCount, message: 'Removing retired objects...' } });
+    changes.removed = await removeAsteroidsNotIn(seenIds);
+  } else {
+    // Rows committed by an interrupted run count as added too
+    changes.added += skipUntil;
+  }
+
+  await updatePartialLoadProgress(storedSoFar, rowCount);
+  await storeRejectedRows(rejected, rejectedCount);
+  await replaceComets(comets);
+  await storeQualityReport({ ...quality, timestamp: Date.now() });
+  await recordDatasetVersion(version, changes);
+  await markDataLoaded();
+  await clearPartialDownload();
+  await buildDerivedCaches();
+
+  if (rejectedCount > 0) {
+    console.warn(`Rejected ${rejectedCount.toLocaleString()} malformed rows`);
+  }
+
+  return { count: rowCount, changes };
+}
+
+// Stream a dropped file through the user's column mapping into its own catalog
+async function importFile(request: Extract<IngestRequest, { type: 'import-file' }>): Promise<number> {
+  const { file } = request;
+  const catalog: UserCatalog = {
+    id: `catalog-${Date.now().toString(36)}`,
+    name: request.catalogName,
+    fileName: file.name,
+    count: 0,
+    rejectedCount: 0,
+    rejectedRows: [],
+    createdAt: Date.now(),
+  };
+  await putUserCatalog(catalog);
+
+  const parser = createMappedCsvParser(request.delimiter, request.mapping);
+  const prices = await getPriceTable();
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let batch: Asteroid[] = [];
+  let lastProgressAt = 0;
+
+  const handleRows = (rows: ParsedRow[]) => {
+    for (const row of rows) {
+      if (row.error || !row.fields) {
+        catalog.rejectedCount++;
+        if (catalog.rejectedRows.length < MAX_USER_REJECTED_ROWS) {
+          catalog.rejectedRows.push({ line: row.line, reason: row.error || 'Unparseable row', preview: row.preview });
+        }
+        continue;
+      }
+      batch.push(enrichAsteroid(row.fields, prices));
+    }
+  };
+
+  const flushBatch = async () => {
+    if (batch.length === 0) return;
+    await storeUserAsteroids(catalog.id, batch);
+    catalog.count += batch.length;
+    batch = [];
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      received += value.length;
+      handleRows(parser.push(decoder.decode(value, { stream: true })));
+      if (batch.length >= STORE_BATCH_SIZE) await flushBatch();
+
+      const now = performance.now();
+      if (now - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+        lastProgressAt = now;
+        post({
+          type: 'progress',
+          progress: {
+            phase: 'parsing',
+            current: received,
+            total: file.size,
+            message: `Importing ${file.name}... ${(catalog.count + batch.length).toLocaleString()} rows`
+          }
+        });
+      }
+    }
+
+    handleRows(parser.push(decoder.decode()));
+    handleRows(parser.end());
+    await flushBatch();
+
+    if (catalog.count === 0) {
+      throw new Error(`No rows of ${file.name} could be imported${catalog.rejectedRows[0] ? ` (line ${catalog.rejectedRows[0].line}: ${catalog.rejectedRows[0].reason})` : ''}`);
+    }
+    await putUserCatalog(catalog);
+  } catch (error) {
+    // Never leave a half-imported catalog behind
+    await deleteUserCatalog(catalog.id);
+    throw error;
+  }
+
+  return catalog.count;
+}
+
+self.onmessage = async (event: MessageEvent<IngestRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'build-caches') {
+      post({ type: 'done', count: await buildDerivedCaches() });
+    } else if (request.type === 'revalue') {
+      post({ type: 'done', count: await revalue(request.prices) });
+    } else if (request.type === 'import-file') {
+      post({ type: 'done', count: await importFile(request) });
+    } else {
+      const { count, changes } = await ingest(request.url, request.mode);
+      post({ type: 'done', count, changes });
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
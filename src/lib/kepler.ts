@@ -0,0 +1,140 @@
+// Two-body propagation for any conic orbit. Times are in days, distances in AU
+// and angles in degrees unless a name says otherwise. Positions come out in the
+// heliocentric ecliptic frame (x toward the vernal equinox, z toward the
+// ecliptic north pole).
+
+// Gaussian gravitational constant: mean motion in radians per day for a = 1 AU
+export const GAUSS_K = 0.01720209895;
+
+// |e - 1| below this is propagated with Barker's equation. Elliptic and
+// hyperbolic solutions lose precision as e approaches 1.
+export const PARABOLIC_TOLERANCE = 1e-3;
+
+const DEG = Math.PI / 180;
+const MAX_ITERATIONS = 50;
+const TOLERANCE = 1e-12;
+
+export interface ConicElements {
+  q: number; // Perihelion distance
+  e: number;
+  i: number;
+  om: number; // Longitude of the ascending node
+  w: number; // Argument of perihelion
+}
+
+export type OrbitType = 'elliptic' | 'parabolic' | 'hyperbolic';
+
+export function orbitType(e: number): OrbitType {
+  if (Math.abs(e - 1) < PARABOLIC_TOLERANCE) return 'parabolic';
+  return e < 1 ? 'elliptic' : 'hyperbolic';
+}
+
+// Mean motion in radians per day; undefined for parabolic orbits, which have none
+export function meanMotion(q: number, e: number): number | undefined {
+  if (orbitType(e) === 'parabolic') return undefined;
+  return GAUSS_K / Math.pow(Math.abs(q / (1 - e)), 1.5);
+}
+
+// Semi-major axis from perihelion distance; negative for hyperbolic orbits
+export function semiMajorAxis(q: number, e: number): number {
+  return q / (1 - e);
+}
+
+// Wrap an angle in radians into (-PI, PI]
+function wrapAngle(angle: number): number {
+  const wrapped = angle % (2 * Math.PI);
+  if (wrapped > Math.PI) return wrapped - 2 * Math.PI;
+  if (wrapped <= -Math.PI) return wrapped + 2 * Math.PI;
+  return wrapped;
+}
+
+// Solve M = E - e sin E for the eccentric anomaly (radians)
+export function solveKepler(M: number, e: number): number {
+  const meanAnomaly = wrapAngle(M);
+  // Starting at PI keeps Newton stable for high eccentricities
+  let E = e < 0.8 ? meanAnomaly : Math.sign(meanAnomaly || 1) * Math.PI;
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    const delta = (E - e * Math.sin(E) - meanAnomaly) / (1 - e * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < TOLERANCE) break;
+  }
+  return E;
+}
+
+// Solve M = e sinh H - H for the hyperbolic anomaly (radians); M is not periodic
+export function solveHyperbolicKepler(M: number, e: number): number {
+  let H = Math.sign(M) * Math.log(2 * Math.abs(M) / e + 1.8);
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    const delta = (e * Math.sinh(H) - H - M) / (e * Math.cosh(H) - 1);
+    H -= delta;
+    if (Math.abs(delta) < TOLERANCE * Math.max(1, Math.abs(H))) break;
+  }
+  return H;
+}
+
+// Solve Barker's equation D + D^3/3 = k dt / sqrt(2 q^3) for D = tan(nu / 2)
+export function solveBarker(q: number, dt: number): number {
+  const W = (3 * GAUSS_K * dt) / Math.sqrt(2 * q * q * q);
+  const Y = Math.cbrt(W / 2 + Math.sqrt((W * W) / 4 + 1));
+  return Y - 1 / Y;
+}
+
+// Position in the orbital plane (perihelion on +x) at dt days after perihelion
+export function perifocalPosition(q: number, e: number, dt: number): { x: number; y: number } {
+  switch (orbitType(e)) {
+    case 'elliptic': {
+      const a = semiMajorAxis(q, e);
+      const E = solveKepler(meanMotion(q, e)! * dt, e);
+      return { x: a * (Math.cos(E) - e), y: a * Math.sqrt(1 - e * e) * Math.sin(E) };
+    }
+    case 'hyperbolic': {
+      const a = -semiMajorAxis(q, e);
+      const H = solveHyperbolicKepler(meanMotion(q, e)! * dt, e);
+      return { x: a * (e - Math.cosh(H)), y: a * Math.sqrt(e * e - 1) * Math.sinh(H) };
+    }
+    case 'parabolic': {
+      const D = solveBarker(q, dt);
+      return { x: q * (1 - D * D), y: 2 * q * D };
+    }
+  }
+}
+
+// Rotate an orbital-plane position into the ecliptic frame
+export function perifocalToEcliptic(
+  x: number,
+  y: number,
+  elements: Pick<ConicElements, 'i' | 'om' | 'w'>
+): { x: number; y: number; z: number } {
+  const cosW = Math.cos(elements.w * DEG);
+  const sinW = Math.sin(elements.w * DEG);
+  const cosO = Math.cos(elements.om * DEG);
+  const sinO = Math.sin(elements.om * DEG);
+  const cosI = Math.cos(elements.i * DEG);
+  const sinI = Math.sin(elements.i * DEG);
+
+  return {
+    x: (cosO * cosW - sinO * sinW * cosI) * x + (-cosO * sinW - sinO * cosW * cosI) * y,
+    y: (sinO * cosW + cosO * sinW * cosI) * x + (-sinO * sinW + cosO * cosW * cosI) * y,
+    z: sinW * sinI * x + cosW * sinI * y,
+  };
+}
+
+// Heliocentric ecliptic position at dt days after perihelion
+export function conicPosition(elements: ConicElements, dt: number): { x: number; y: number; z: number } {
+  const { x, y } = perifocalPosition(elements.q, elements.e, dt);
+  return perifocalToEcliptic(x, y, elements);
+}
+
+// Days since perihelion for an orbit given by its mean anomaly (degrees).
+// Parabolic orbits have no mean anomaly and need a perihelion time instead.
+export function timeSincePerihelion(q: number, e: number, meanAnomaly: number): number {
+  const n = meanMotion(q, e);
+  if (n === undefined) return 0;
+  const M = meanAnomaly * DEG;
+  return (orbitType(e) === 'elliptic' ? wrapAngle(M) : M) / n;
+}
+
+// Julian Date of a JavaScript date
+export function dateToJD(date: Date): number {
+  return date.getTime() / 86400000 + 2440587.5;
+}
@@ -0,0 +1,318 @@
+import { type IDBPDatabase, type IDBPTransaction } from 'idb';
+import { type Asteroid } from './indexedDB';
+import { classifyAsteroid, getAsteroidColor, estimateValue, tisserandJupiter } from './enrichment';
+import { rendezvousDeltaV, difficultyFromDeltaV } from './deltaV';
+import { estimateDiameter } from './diameter';
+import { type QualityFlag, validateAsteroid } from './validation';
+import { type PriceTable, normalizePrices } from './valuation';
+import { type CometFields, isCometRow, toComet } from './comets';
+
+export const STORE_NAME = 'asteroids';
+export const META_STORE = 'metadata';
+export const COLUMN_STORE = 'columns';
+export const USER_CATALOG_STORE = 'userCatalogs';
+export const USER_ASTEROID_STORE = 'userAsteroids';
+export const COMET_STORE = 'comets';
+export const DOWNLOAD_STORE = 'downloadBlocks';
+
+type UpgradeTransaction = IDBPTransaction<unknown, string[], 'versionchange'>;
+
+export interface MigrationContext {
+  db: IDBPDatabase;
+  tx: UpgradeTransaction;
+}
+
+export interface MigrationResult {
+  // Asteroid rows cannot be migrated in place; clear them and ingest again.
+  // Only the asteroid catalog is dropped, user stores are left untouched.
+  requiresReingest?: boolean;
+  // The computed fields changed. They are recomputed once with the current code
+  // after the last migration, however many steps asked for it.
+  recomputeDerivedFields?: boolean;
+}
+
+export interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  migrate(context: MigrationContext): Promise<MigrationResult | void>;
+}
+
+function createAsteroidStore(db: IDBPDatabase): void {
+  const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  store.createIndex('name', 'name');
+  store.createIndex('class', 'class');
+  store.createIndex('estimatedValue', 'estimatedValue');
+  store.createIndex('diameter', 'diameter');
+  store.createIndex('neo', 'neo');
+  store.createIndex('pha', 'pha');
+}
+
+// Versions 1-3 predate the registry and were always wiped on upgrade, so their
+// store layout is not known. Their NEO/PHA flags were also parsed case-sensitively.
+const legacyMigrations: Migration[] = [1, 2, 3].map(from => ({
+  from,
+  to: 4,
+  description: 'Rebuild asteroid store from before case-insensitive NEO/PHA flags',
+  async migrate({ db }) {
+    if (db.objectStoreNames.contains(STORE_NAME)) {
+      db.deleteObjectStore(STORE_NAME);
+    }
+    createAsteroidStore(db);
+    if (!db.objectStoreNames.contains(META_STORE)) {
+      db.createObjectStore(META_STORE, { keyPath: 'key' });
+    }
+    return { requiresReingest: true };
+  },
+}));
+
+// Ordered list of upgrades; each runs inside the openDB upgrade transaction.
+// Append new entries here and DB_VERSION follows automatically.
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    to: 4,
+    description: 'Create asteroid and metadata stores',
+    async migrate({ db }) {
+      createAsteroidStore(db);
+      db.createObjectStore(META_STORE, { keyPath: 'key' });
+    },
+  },
+  ...legacyMigrations,
+  {
+    from: 4,
+    to: 5,
+    description: 'Index category and backfill computed fields',
+    async migrate({ tx }) {
+      tx.objectStore(STORE_NAME).createIndex('category', 'category');
+      return { recomputeDerivedFields: true };
+    },
+  },
+  {
+    from: 5,
+    to: 6,
+    description: 'Create columnar asteroid cache store',
+    async migrate({ db }) {
+      db.createObjectStore(COLUMN_STORE, { keyPath: 'name' });
+    },
+  },
+  {
+    from: 6,
+    to: 7,
+    description: 'Create stores for user-imported catalogs',
+    async migrate({ db }) {
+      db.createObjectStore(USER_CATALOG_STORE, { keyPath: 'id' });
+      const store = db.createObjectStore(USER_ASTEROID_STORE, { keyPath: ['catalogId', 'id'] });
+      store.createIndex('catalogId', 'catalogId');
+    },
+  },
+  {
+    from: 7,
+    to: 8,
+    description: 'Flag data quality problems and index the flags',
+    async migrate({ tx }) {
+      tx.objectStore(STORE_NAME).createIndex('qualityFlags', 'qualityFlags', { multiEntry: true });
+      return { recomputeDerivedFields: true };
+    },
+  },
+  {
+    from: 8,
+    to: 9,
+    description: 'Index semi-major axis, absolute magnitude and MOID for sorting',
+    async migrate({ tx }) {
+      const store = tx.objectStore(STORE_NAME);
+      store.createIndex('a', 'a');
+      store.createIndex('H', 'H');
+      store.createIndex('moid', 'moid');
+    },
+  },
+  {
+    from: 9,
+    to: 10,
+    description: 'Create comet store and move comets out of the asteroid store',
+    async migrate({ db, tx }) {
+      const comets = db.createObjectStore(COMET_STORE, { keyPath: 'id' });
+      comets.createIndex('category', 'category');
+
+      let moved = 0;
+      let cursor = await tx.objectStore(STORE_NAME).openCursor();
+      while (cursor) {
+        const fields = cursor.value as CometFields;
+        if (isCometRow(fields)) {
+          const comet = toComet(fields);
+          if (typeof comet !== 'string') await comets.put(comet);
+          await cursor.delete();
+          moved++;
+        }
+        cursor = await cursor.continue();
+      }
+
+      // The column cache, search index and statistics still include them
+      if (moved > 0) {
+        const meta = tx.objectStore(META_STORE);
+        await meta.delete('columnCache');
+        await meta.delete('searchIndex');
+        await meta.delete('statistics');
+      }
+    },
+  },
+  {
+    from: 10,
+    to: 11,
+    description: 'Store and index rendezvous delta-v, relabel mining difficulty from it',
+    async migrate({ tx }) {
+      tx.objectStore(STORE_NAME).createIndex('deltaV', 'deltaV');
+      return { recomputeDerivedFields: true };
+    },
+  },
+  {
+    from: 11,
+    to: 12,
+    description: 'Categorize by catalog orbit class and store the Tisserand parameter',
+    async migrate({ tx }) {
+      tx.objectStore(STORE_NAME).createIndex('tisserandJ', 'tisserandJ');
+      return { recomputeDerivedFields: true };
+    },
+  },
+  {
+    from: 12,
+    to: 13,
+    description: 'Store diameter provenance and bounds, estimating missing sizes from H',
+    async migrate() {
+      return { recomputeDerivedFields: true };
+    },
+  },
+  {
+    from: 13,
+    to: 14,
+    description: 'Create store for the raw bytes of interrupted dataset downloads',
+    async migrate({ db }) {
+      db.createObjectStore(DOWNLOAD_STORE, { keyPath: 'seq' });
+    },
+  },
+  {
+    from: 14,
+    to: 15,
+    description: 'Revalue asteroids from composition profiles and the stored price table',
+    async migrate() {
+      return { recomputeDerivedFields: true };
+    },
+  },
+  {
+    from: 15,
+    to: 16,
+    description: 'Store NEO/PHA flags as 0/1 and rebuild their indexes',
+    async migrate({ tx }) {
+      // The indexes were empty while the flags were booleans, which are not keys
+      const store = tx.objectStore(STORE_NAME);
+      store.deleteIndex('neo');
+      store.deleteIndex('pha');
+
+      for (const storeName of [STORE_NAME, USER_ASTEROID_STORE]) {
+        let cursor = await tx.objectStore(storeName).openCursor();
+        while (cursor) {
+          const asteroid = cursor.value as Asteroid;
+          await cursor.update({ ...asteroid, neo: asteroid.neo ? 1 : 0, pha: asteroid.pha ? 1 : 0 });
+          cursor = await cursor.continue();
+        }
+      }
+
+      store.createIndex('neo', 'neo');
+      store.createIndex('pha', 'pha');
+    },
+  },
+  {
+    from: 16,
+    to: 17,
+    description: 'Rebuild catalog statistics without default-filled H and orbital elements',
+    async migrate({ tx }) {
+      await tx.objectStore(META_STORE).delete('statistics');
+    },
+  },
+];
+
+export const DB_VERSION = Math.max(...MIGRATIONS.map(m => m.to));
+
+// Every computed field of a stored row, as ingest would derive it today
+function withDerivedFields(asteroid: Asteroid, prices: PriceTable): Asteroid {
+  const sized = { ...asteroid, ...estimateDiameter(asteroid) };
+  const deltaV = rendezvousDeltaV(sized);
+  return {
+    ...sized,
+    qualityFlags: validateAsteroid(sized),
+    category: classifyAsteroid(sized),
+    tisserandJ: tisserandJupiter(sized),
+    color: getAsteroidColor(sized),
+    estimatedValue: estimateValue(sized, prices),
+    deltaV,
+    miningDifficulty: difficultyFromDeltaV(deltaV),
+  };
+}
+
+// One pass over the catalog and user rows with the current enrichment code and
+// the stored price table, shared by every step that changed a computed field
+async function recomputeDerivedFields(tx: UpgradeTransaction): Promise<void> {
+  const meta = tx.objectStore(META_STORE);
+  const prices = normalizePrices((await meta.get('priceTable'))?.prices);
+
+  // Stored rows already had defaults applied, so only the quality rules that
+  // look at real values fire here; missing-value rules need the next ingest
+  const counts: Partial<Record<QualityFlag, number>> = {};
+  let checked = 0;
+  for (const storeName of [STORE_NAME, USER_ASTEROID_STORE]) {
+    let cursor = await tx.objectStore(storeName).openCursor();
+    while (cursor) {
+      const asteroid = withDerivedFields(cursor.value as Asteroid, prices);
+      if (storeName === STORE_NAME) {
+        for (const flag of asteroid.qualityFlags) counts[flag] = (counts[flag] || 0) + 1;
+        checked++;
+      }
+      await cursor.update(asteroid);
+      cursor = await cursor.continue();
+    }
+  }
+
+  if (checked > 0) {
+    await meta.put({ key: 'qualityReport', counts, checked, timestamp: Date.now() });
+  }
+  // Columns, histograms and category totals all follow the recomputed fields
+  await meta.delete('columnCache');
+  await meta.delete('statistics');
+}
+
+// Walk the registry from oldVersion up to newVersion
+export async function runMigrations(
+  db: IDBPDatabase,
+  tx: UpgradeTransaction,
+  oldVersion: number,
+  newVersion: number
+): Promise<void> {
+  let version = oldVersion;
+  let recompute = false;
+
+  while (version < newVersion) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`No database migration from version ${version}`);
+    }
+
+    console.log(`Migrating database v${migration.from} -> v${migration.to}: ${migration.description}`);
+    const result = await migration.migrate({ db, tx });
+    version = migration.to;
+    recompute ||= result?.recomputeDerivedFields ?? false;
+
+    // Clear right away so later migrations don't backfill rows about to be dropped
+    if (result?.requiresReingest) {
+      console.log('Migration requested a re-ingest, clearing asteroid catalog...');
+      await tx.objectStore(STORE_NAME).clear();
+      const meta = tx.objectStore(META_STORE);
+      await meta.delete('dataLoaded');
+      await meta.delete('loadProgress');
+    }
+  }
+
+  if (recompute) {
+    console.log('Recomputing derived asteroid fields...');
+    await recomputeDerivedFields(tx);
+  }
+}
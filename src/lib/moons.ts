@@ -0,0 +1,123 @@
+// Planetary satellites from mean orbital elements, read from a catalog file so
+// moons can be added without code changes. Elements follow JPL's "Planetary
+// Satellite Mean Elements": angles are referred to each moon's Laplace plane,
+// given by its pole in ICRF, with the node measured from where that plane
+// crosses the ICRF equator; moons without a pole (Earth's Moon, distant
+// irregulars) are referred to the ecliptic and equinox of J2000.
+
+import { perifocalToEcliptic, solveKepler } from './kepler';
+import { J2000_JD, equatorialDirection } from './ephemeris';
+
+const MOON_CATALOG_URL = '/data/moons.json';
+const DEG = Math.PI / 180;
+const DAYS_PER_YEAR = 365.25;
+
+export interface MoonElements {
+  name: string;
+  planet: string; // Parent body, as named in EPHEMERIDES
+  radius: number; // Mean radius, km
+  color: string;
+  textureUrl?: string;
+  bumpUrl?: string;
+  a: number; // km
+  e: number;
+  i: number; // deg, to the reference plane
+  node: number; // Longitude of the ascending node, deg
+  w: number; // Argument of periapsis, deg
+  M: number; // Mean anomaly at epoch, deg
+  period: number; // Sidereal period, days
+  epoch?: number; // JD (TDB) of the elements; J2000 when absent
+  wPeriod?: number; // Years for the periapsis to advance a full turn
+  nodePeriod?: number; // Years for the node to regress a full turn
+  // RA, Dec (deg, ICRF) of the side the orbit runs counterclockwise around,
+  // so i > 90 is retrograde; absent for ecliptic elements
+  laplacePole?: [number, number];
+}
+
+type Vector = { x: number; y: number; z: number };
+
+// Axes of a moon's reference plane in the ecliptic frame
+export interface MoonFrame {
+  x: Vector;
+  y: Vector;
+  z: Vector;
+}
+
+function isMoonElements(value: unknown): value is MoonElements {
+  const moon = value as MoonElements;
+  return typeof moon?.name === 'string' && typeof moon.planet === 'string' &&
+    moon.a > 0 && moon.e >= 0 && moon.e < 1 && moon.period > 0 && moon.radius > 0 &&
+    [moon.i, moon.node, moon.w, moon.M].every(Number.isFinite);
+}
+
+// Fetch the catalog; entries that cannot describe an orbit are skipped
+export async function loadMoonCatalog(url: string = MOON_CATALOG_URL): Promise<MoonElements[]> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Moon catalog request failed: ${response.status}`);
+  const entries: unknown = await response.json();
+  if (!Array.isArray(entries)) throw new Error('Moon catalog is not an array');
+  const moons = entries.filter(isMoonElements);
+  if (moons.length < entries.length) {
+    console.warn(`Skipped ${entries.length - moons.length} moon catalog entries without usable elements`);
+  }
+  return moons;
+}
+
+export function moonFrame(moon: MoonElements): MoonFrame {
+  if (!moon.laplacePole) {
+    return { x: { x: 1, y: 0, z: 0 }, y: { x: 0, y: 1, z: 0 }, z: { x: 0, y: 0, z: 1 } };
+  }
+  const [ra, dec] = moon.laplacePole;
+  const x = equatorialDirection(ra + 90, 0); // Ascending node on the ICRF equator
+  const z = equatorialDirection(ra, dec);
+  const y = { x: z.y * x.z - z.z * x.y, y: z.z * x.x - z.x * x.z, z: z.x * x.y - z.y * x.x };
+  return { x, y, z };
+}
+
+// Orientation angles (deg) at a Julian Date, carried by the apsidal and nodal precession
+function anglesAt(moon: MoonElements, jd: number): { i: number; om: number; w: number; M: number } {
+  const days = jd - (moon.epoch ?? J2000_JD);
+  const years = days / DAYS_PER_YEAR;
+  return {
+    i: moon.i,
+    om: moon.node - (moon.nodePeriod ? (360 * years) / moon.nodePeriod : 0),
+    w: moon.w + (moon.wPeriod ? (360 * years) / moon.wPeriod : 0),
+    M: moon.M + (360 * days) / moon.period,
+  };
+}
+
+function toEcliptic(frame: MoonFrame, { x, y, z }: Vector): Vector {
+  return {
+    x: x * frame.x.x + y * frame.y.x + z * frame.z.x,
+    y: x * frame.x.y + y * frame.y.y + z * frame.z.y,
+    z: x * frame.x.z + y * frame.y.z + z * frame.z.z,
+  };
+}
+
+// Planetocentric ecliptic position (km) at a Julian Date
+export function moonPosition(moon: MoonElements, frame: MoonFrame, jd: number): Vector {
+  const angles = anglesAt(moon, jd);
+  const E = solveKepler(angles.M * DEG, moon.e);
+  const x = moon.a * (Math.cos(E) - moon.e);
+  const y = moon.a * Math.sqrt(1 - moon.e * moon.e) * Math.sin(E);
+  return toEcliptic(frame, perifocalToEcliptic(x, y, angles));
+}
+
+// Points around the orbit at a Julian Date (km), evenly spaced in eccentric anomaly
+export function moonOrbitPoints(moon: MoonElements, frame: MoonFrame, jd: number, segments: number): Vector[] {
+  const angles = anglesAt(moon, jd);
+  const b = moon.a * Math.sqrt(1 - moon.e * moon.e);
+  const points = [];
+  for (let n = 0; n <= segments; n++) {
+    const E = (n / segments) * 2 * Math.PI;
+    points.push(toEcliptic(frame, perifocalToEcliptic(moon.a * (Math.cos(E) - moon.e), b * Math.sin(E), angles)));
+  }
+  return points;
+}
+
+// Days over which the orbit's orientation turns by the given angle (deg);
+// Infinity for orbits that do not precess
+export function precessionInterval(moon: MoonElements, degrees: number): number {
+  const rate = Math.abs(moon.wPeriod ? 360 / moon.wPeriod : 0) + Math.abs(moon.nodePeriod ? 360 / moon.nodePeriod : 0);
+  return rate > 0 ? (degrees / rate) * DAYS_PER_YEAR : Infinity;
+}
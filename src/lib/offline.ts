@@ -0,0 +1,42 @@
+// Service worker registration and connectivity status for the UI. The worker
+// itself lives in sw/serviceWorker.ts and only exists in production builds.
+
+export interface OfflineStatus {
+  online: boolean;
+  // A service worker controls the page, so the app shell and textures are cached
+  offlineReady: boolean;
+}
+
+const listeners = new Set<() => void>();
+let status: OfflineStatus = {
+  online: navigator.onLine,
+  offlineReady: 'serviceWorker' in navigator && navigator.serviceWorker.controller !== null,
+};
+
+function update(changes: Partial<OfflineStatus>): void {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener());
+}
+
+window.addEventListener('online', () => update({ online: true }));
+window.addEventListener('offline', () => update({ online: false }));
+
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => update({ offlineReady: true }));
+  navigator.serviceWorker.register('/sw.js')
+    .then(() => navigator.serviceWorker.ready)
+    .then(() => update({ offlineReady: true }))
+    .catch(error => console.warn('Service worker registration failed:', error));
+}
+
+// For useSyncExternalStore
+export function subscribeOfflineStatus(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getOfflineStatus(): OfflineStatus {
+  return status;
+}
@@ -0,0 +1,317 @@
+import { type Asteroid } from './indexedDB';
+import { ASTEROID_CATEGORIES } from './enrichment';
+
+// Filter language for the asteroid list. Terms are separated by spaces and all
+// of them must match:
+//   a:2.5..2.8   e:<0.1   diameter:>=10   H:..15        numeric ranges
+//   dv:<6                                                delta-v from LEO, km/s
+//   tj:2..3                                              Tisserand parameter (Jupiter)
+//   class:APO    category:"Main Belt"                    exact values
+//   pha   neo   neo:no                                   flags
+//   name:ceres   name:~cer                               exact / contains
+//   ceres   2024 YR4                                     free text in any name
+// Prefix a term with '-' or '!' to negate it. Plain words form one phrase, so
+// an unquoted designation such as 2024 YR4 still matches as a whole.
+
+export type NumericField =
+  | 'a' | 'e' | 'i' | 'q' | 'ad' | 'om' | 'w' | 'ma' | 'H'
+  | 'diameter' | 'albedo' | 'moid' | 'per_y' | 'estimatedValue' | 'deltaV' | 'tisserandJ';
+
+export type KeywordField = 'class' | 'category' | 'miningDifficulty';
+
+export type FlagField = 'neo' | 'pha';
+
+export interface RangeTerm {
+  kind: 'range';
+  field: NumericField;
+  min: number | null;
+  max: number | null;
+  minExclusive: boolean;
+  maxExclusive: boolean;
+  negated: boolean;
+}
+
+export interface KeywordTerm {
+  kind: 'keyword';
+  field: KeywordField;
+  value: string;
+  negated: boolean;
+}
+
+export interface FlagTerm {
+  kind: 'flag';
+  field: FlagField;
+  value: boolean;
+  negated: boolean;
+}
+
+export interface TextTerm {
+  kind: 'text';
+  field: 'name' | 'any';
+  value: string; // Lower-cased
+  match: 'exact' | 'contains';
+  negated: boolean;
+}
+
+export type QueryTerm = RangeTerm | KeywordTerm | FlagTerm | TextTerm;
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: string[];
+}
+
+// A term that can be answered from an IndexedDB index
+export interface IndexCandidate {
+  index: string;
+  only?: string | number;
+  lower?: number;
+  upper?: number;
+  lowerOpen: boolean;
+  upperOpen: boolean;
+  term: QueryTerm;
+}
+
+const NUMERIC_FIELDS: Record<string, NumericField> = {
+  a: 'a',
+  e: 'e',
+  i: 'i',
+  q: 'q',
+  ad: 'ad',
+  om: 'om',
+  node: 'om',
+  w: 'w',
+  peri: 'w',
+  ma: 'ma',
+  h: 'H',
+  diameter: 'diameter',
+  d: 'diameter',
+  albedo: 'albedo',
+  moid: 'moid',
+  period: 'per_y',
+  per_y: 'per_y',
+  value: 'estimatedValue',
+  dv: 'deltaV',
+  deltav: 'deltaV',
+  tj: 'tisserandJ',
+  tisserand: 'tisserandJ',
+};
+
+const KEYWORD_FIELDS: Record<string, KeywordField> = {
+  class: 'class',
+  category: 'category',
+  difficulty: 'miningDifficulty',
+};
+
+const DIFFICULTIES = ['Easy', 'Moderate', 'Difficult', 'Very Difficult', 'Extreme'];
+
+const TRUE_WORDS = new Set(['y', 'yes', 'true', '1']);
+const FALSE_WORDS = new Set(['n', 'no', 'false', '0']);
+
+// Fields with an index in the asteroid store
+const INDEXED_FIELDS: Partial<Record<NumericField | KeywordField | FlagField, string>> = {
+  neo: 'neo',
+  pha: 'pha',
+  class: 'class',
+  category: 'category',
+  diameter: 'diameter',
+  estimatedValue: 'estimatedValue',
+  a: 'a',
+  H: 'H',
+  moid: 'moid',
+  deltaV: 'deltaV',
+  tisserandJ: 'tisserandJ',
+};
+
+// Split on whitespace, keeping double-quoted sections together
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of input) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+function parseNumber(text: string): number | null {
+  if (text.trim() === '') return null;
+  const value = Number(text);
+  return isNaN(value) ? null : value;
+}
+
+function parseRange(field: NumericField, text: string, negated: boolean): RangeTerm | string {
+  const term: RangeTerm = { kind: 'range', field, min: null, max: null, minExclusive: false, maxExclusive: false, negated };
+
+  const comparison = text.match(/^(<=|>=|<|>|=)(.*)$/);
+  if (comparison) {
+    const value = parseNumber(comparison[2]);
+    if (value === null) return `"${comparison[2]}" is not a number`;
+    const [, op] = comparison;
+    if (op === '<' || op === '<=') {
+      term.max = value;
+      term.maxExclusive = op === '<';
+    } else if (op === '>' || op === '>=') {
+      term.min = value;
+      term.minExclusive = op === '>';
+    } else {
+      term.min = term.max = value;
+    }
+    return term;
+  }
+
+  if (text.includes('..')) {
+    const [lowText, highText] = text.split('..', 2);
+    const low = lowText === '' ? null : parseNumber(lowText);
+    const high = highText === '' ? null : parseNumber(highText);
+    if ((lowText !== '' && low === null) || (highText !== '' && high === null) || (low === null && high === null)) {
+      return `"${text}" is not a valid range`;
+    }
+    term.min = low;
+    term.max = high;
+    return term;
+  }
+
+  const value = parseNumber(text);
+  if (value === null) return `"${text}" is not a number`;
+  term.min = term.max = value;
+  return term;
+}
+
+// Stored class codes are upper case; categories and difficulties use fixed names
+function canonicalKeyword(field: KeywordField, value: string): string | null {
+  if (field === 'class') return value.toUpperCase();
+  const names = field === 'category' ? ASTEROID_CATEGORIES : DIFFICULTIES;
+  return names.find(name => name.toLowerCase() === value.toLowerCase()) ?? null;
+}
+
+function parseToken(token: string): QueryTerm | string {
+  const negated = token.startsWith('-') || token.startsWith('!');
+  const body = negated ? token.slice(1) : token;
+  const colon = body.indexOf(':');
+
+  if (colon === -1) {
+    const flag = body.toLowerCase();
+    if (flag === 'neo' || flag === 'pha') {
+      return { kind: 'flag', field: flag, value: true, negated };
+    }
+    return { kind: 'text', field: 'any', value: body.toLowerCase(), match: 'contains', negated };
+  }
+
+  const key = body.slice(0, colon).toLowerCase();
+  const value = body.slice(colon + 1);
+  if (value === '') return `No value given for "${key}"`;
+
+  if (key in NUMERIC_FIELDS) {
+    return parseRange(NUMERIC_FIELDS[key], value, negated);
+  }
+
+  if (key in KEYWORD_FIELDS) {
+    const field = KEYWORD_FIELDS[key];
+    const canonical = canonicalKeyword(field, value);
+    if (canonical === null) return `Unknown ${key} "${value}"`;
+    return { kind: 'keyword', field, value: canonical, negated };
+  }
+
+  if (key === 'neo' || key === 'pha') {
+    const word = value.toLowerCase();
+    if (!TRUE_WORDS.has(word) && !FALSE_WORDS.has(word)) return `"${value}" is not yes or no`;
+    return { kind: 'flag', field: key, value: TRUE_WORDS.has(word), negated };
+  }
+
+  if (key === 'name') {
+    const contains = value.startsWith('~');
+    const text = (contains ? value.slice(1) : value).toLowerCase();
+    if (!text) return 'No value given for "name"';
+    return { kind: 'text', field: 'name', value: text, match: contains ? 'contains' : 'exact', negated };
+  }
+
+  return `Unknown field "${key}"`;
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+
+  const phrase: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const result = parseToken(token);
+    if (typeof result === 'string') {
+      errors.push(result);
+    } else if (result.kind === 'text' && result.field === 'any' && !result.negated) {
+      phrase.push(result.value);
+    } else {
+      terms.push(result);
+    }
+  }
+
+  if (phrase.length > 0) {
+    terms.unshift({ kind: 'text', field: 'any', value: phrase.join(' '), match: 'contains', negated: false });
+  }
+
+  return { terms, errors };
+}
+
+function matchesTerm(asteroid: Asteroid, term: QueryTerm): boolean {
+  switch (term.kind) {
+    case 'range': {
+      const value = asteroid[term.field];
+      if (typeof value !== 'number' || isNaN(value)) return false;
+      if (term.min !== null && (term.minExclusive ? value <= term.min : value < term.min)) return false;
+      if (term.max !== null && (term.maxExclusive ? value >= term.max : value > term.max)) return false;
+      return true;
+    }
+    case 'keyword': {
+      const value = asteroid[term.field] || '';
+      return term.field === 'class' ? value.toUpperCase() === term.value : value === term.value;
+    }
+    case 'flag':
+      return Boolean(asteroid[term.field]) === term.value;
+    case 'text': {
+      const names = [asteroid.name, asteroid.pdes, asteroid.full_name].map(name => (name || '').toLowerCase());
+      return term.match === 'exact'
+        ? names.some(name => name.trim() === term.value)
+        : names.some(name => name.includes(term.value));
+    }
+  }
+}
+
+export function matchesQuery(asteroid: Asteroid, query: ParsedQuery): boolean {
+  return query.terms.every(term => matchesTerm(asteroid, term) !== term.negated);
+}
+
+// Terms the planner could drive from an index; the executor picks the narrowest
+export function indexCandidates(query: ParsedQuery): IndexCandidate[] {
+  const candidates: IndexCandidate[] = [];
+
+  for (const term of query.terms) {
+    if (term.negated) continue;
+
+    if (term.kind === 'keyword' && INDEXED_FIELDS[term.field]) {
+      candidates.push({ index: INDEXED_FIELDS[term.field]!, only: term.value, lowerOpen: false, upperOpen: false, term });
+    } else if (term.kind === 'flag' && INDEXED_FIELDS[term.field]) {
+      // Flags are stored as 0/1
+      candidates.push({ index: INDEXED_FIELDS[term.field]!, only: term.value ? 1 : 0, lowerOpen: false, upperOpen: false, term });
+    } else if (term.kind === 'range' && INDEXED_FIELDS[term.field]) {
+      candidates.push({
+        index: INDEXED_FIELDS[term.field]!,
+        lower: term.min ?? undefined,
+        upper: term.max ?? undefined,
+        lowerOpen: term.minExclusive,
+        upperOpen: term.maxExclusive,
+        term,
+      });
+    }
+  }
+
+  return candidates;
+}
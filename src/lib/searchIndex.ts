@@ -0,0 +1,282 @@
+import {
+  type Asteroid,
+  type SearchIndexData,
+  storeSearchIndex,
+  getSearchIndexData,
+  queryAsteroids,
+} from './indexedDB';
+import { getAsteroidColumns } from './columnarCache';
+import { type ParsedQuery, type TextTerm } from './query';
+
+// Name lookup index built by the ingest worker in the same pass as the column
+// cache, so a token's row is also its column index.
+//
+// Every name, designation and SPK-ID is normalized (lower case, letters and
+// digits only, so "2024 YR4" becomes "2024yr4") and stored as one sorted token
+// list. Prefix queries are two binary searches. Typo tolerance comes from a
+// trigram index over the much smaller set of distinct proper-name words,
+// confirmed with an edit-distance check.
+
+// Source field of a token, stored per token as a Uint8
+const KIND_DESIGNATION = 0;
+const KIND_SPKID = 1;
+const KIND_NAME = 2;
+
+export const SEARCH_LIMIT = 5000; // Ranked rows returned per query
+const MAX_PREFIX_SCAN = 20000; // Prefix tokens examined before giving up on ranking more
+const FUZZY_MIN_RESULTS = 20; // Below this many prefix hits, add typo matches
+
+export function normalizeSearchText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Accumulates tokens during the ingest worker's cache pass
+export class SearchIndexBuilder {
+  private tokens: string[] = [];
+  private rows: number[] = [];
+  private kinds: number[] = [];
+  private nameWords = new Set<string>();
+
+  private addToken(token: string, row: number, kind: number): void {
+    if (!token) return;
+    this.tokens.push(token);
+    this.rows.push(row);
+    this.kinds.push(kind);
+  }
+
+  add(asteroid: Asteroid, row: number): void {
+    const pdes = normalizeSearchText(asteroid.pdes || '');
+    this.addToken(pdes, row, KIND_DESIGNATION);
+
+    // Numbered objects carry their provisional designation in parentheses, e.g. "433 Eros (A898 PA)"
+    const provisional = normalizeSearchText(asteroid.full_name?.match(/\(([^)]+)\)/)?.[1] || '');
+    if (provisional !== pdes) this.addToken(provisional, row, KIND_DESIGNATION);
+
+    if (asteroid.spkid) this.addToken(String(asteroid.spkid), row, KIND_SPKID);
+
+    if (asteroid.name) {
+      const whole = normalizeSearchText(asteroid.name);
+      const words = asteroid.name.split(/[\s-]+/).map(normalizeSearchText).filter(word => word && word !== whole);
+      for (const token of [whole, ...words]) {
+        this.addToken(token, row, KIND_NAME);
+        if (token) this.nameWords.add(token);
+      }
+    }
+  }
+
+  async finish(count: number): Promise<void> {
+    const { tokens } = this;
+    const order = Array.from(tokens.keys()).sort((x, y) => (tokens[x] < tokens[y] ? -1 : tokens[x] > tokens[y] ? 1 : 0));
+
+    const offsets = new Uint32Array(order.length + 1);
+    const rows = new Uint32Array(order.length);
+    const kinds = new Uint8Array(order.length);
+    const sorted: string[] = [];
+    let offset = 0;
+
+    order.forEach((source, k) => {
+      offsets[k] = offset;
+      rows[k] = this.rows[source];
+      kinds[k] = this.kinds[source];
+      sorted.push(tokens[source]);
+      offset += tokens[source].length + 1;
+    });
+    offsets[order.length] = offset;
+
+    await storeSearchIndex({
+      tokens: sorted.join('\n') + (sorted.length > 0 ? '\n' : ''),
+      offsets: offsets.buffer,
+      rows: rows.buffer,
+      kinds: kinds.buffer,
+      nameWords: [...this.nameWords].join('\n'),
+      count,
+    });
+  }
+}
+
+interface SearchIndex {
+  tokens: string;
+  offsets: Uint32Array;
+  rows: Uint32Array;
+  kinds: Uint8Array;
+  nameWords: string[];
+  trigrams: Map<string, number[]>; // Trigram -> nameWords indexes
+  count: number;
+}
+
+function trigramsOf(word: string): string[] {
+  const padded = `  ${word} `;
+  const result: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) result.push(padded.slice(i, i + 3));
+  return result;
+}
+
+function buildSearchIndex(data: SearchIndexData): SearchIndex {
+  const nameWords = data.nameWords ? data.nameWords.split('\n') : [];
+  const trigrams = new Map<string, number[]>();
+  nameWords.forEach((word, index) => {
+    for (const trigram of new Set(trigramsOf(word))) {
+      const list = trigrams.get(trigram);
+      if (list) list.push(index);
+      else trigrams.set(trigram, [index]);
+    }
+  });
+
+  return {
+    tokens: data.tokens,
+    offsets: new Uint32Array(data.offsets),
+    rows: new Uint32Array(data.rows),
+    kinds: new Uint8Array(data.kinds),
+    nameWords,
+    trigrams,
+    count: data.count,
+  };
+}
+
+function tokenAt(index: SearchIndex, k: number): string {
+  return index.tokens.slice(index.offsets[k], index.offsets[k + 1] - 1);
+}
+
+// First token position >= value
+function lowerBound(index: SearchIndex, value: string): number {
+  let low = 0;
+  let high = index.rows.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (tokenAt(index, mid) < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Optimal string alignment distance, giving up once it exceeds maxDistance
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Name words within a small edit distance of the query, best first
+function fuzzyNameWords(index: SearchIndex, query: string): { word: string; distance: number }[] {
+  const maxDistance = query.length <= 5 ? 1 : 2;
+  const shared = new Map<number, number>();
+  for (const trigram of new Set(trigramsOf(query))) {
+    for (const wordIndex of index.trigrams.get(trigram) || []) {
+      shared.set(wordIndex, (shared.get(wordIndex) || 0) + 1);
+    }
+  }
+
+  const matches: { word: string; distance: number }[] = [];
+  for (const [wordIndex, count] of shared) {
+    // Each edit destroys at most three trigrams
+    if (count < trigramsOf(query).length - 3 * maxDistance) continue;
+    const word = index.nameWords[wordIndex];
+    const distance = editDistance(query, word, maxDistance);
+    if (distance > 0 && distance <= maxDistance) matches.push({ word, distance });
+  }
+  return matches.sort((x, y) => x.distance - y.distance);
+}
+
+// Rank rows for a query. Lower scores are better:
+//   0 exact designation / SPK-ID, 1 exact name, 2..3 prefix (shorter remainder first), 4+ typo match
+function rankRows(index: SearchIndex, query: string, exactOnly: boolean): { rows: number[]; total: number } {
+  const scores = new Map<number, number>();
+  const consider = (row: number, score: number) => {
+    const previous = scores.get(row);
+    if (previous === undefined || score < previous) scores.set(row, score);
+  };
+
+  const start = lowerBound(index, query);
+  const end = exactOnly ? lowerBound(index, query + '\0') : lowerBound(index, query + '\uffff');
+  const scanEnd = Math.min(end, start + MAX_PREFIX_SCAN);
+
+  for (let k = start; k < scanEnd; k++) {
+    const token = tokenAt(index, k);
+    const isName = index.kinds[k] === KIND_NAME;
+    if (token === query) {
+      consider(index.rows[k], isName ? 1 : 0);
+    } else {
+      consider(index.rows[k], 2 + Math.min(token.length - query.length, 99) / 100);
+    }
+  }
+
+  if (!exactOnly && scores.size < FUZZY_MIN_RESULTS && query.length >= 3) {
+    for (const { word, distance } of fuzzyNameWords(index, query)) {
+      const wordStart = lowerBound(index, word);
+      const wordEnd = lowerBound(index, word + '\0');
+      for (let k = wordStart; k < wordEnd; k++) {
+        if (index.kinds[k] === KIND_NAME) consider(index.rows[k], 3 + distance);
+      }
+    }
+  }
+
+  const rows = [...scores.keys()].sort((x, y) => scores.get(x)! - scores.get(y)! || x - y);
+  // Matches beyond the scan window are counted but not ranked
+  const total = rows.length + Math.max(0, end - scanEnd);
+  return { rows: rows.slice(0, SEARCH_LIMIT), total };
+}
+
+let loadedIndex: Promise<SearchIndex | null> | null = null;
+
+async function readSearchIndex(): Promise<SearchIndex | null> {
+  const data = await getSearchIndexData();
+  return data ? buildSearchIndex(data) : null;
+}
+
+// Drop the in-memory index after the worker rebuilt it
+export function invalidateSearchIndex(): void {
+  loadedIndex = null;
+}
+
+// Ranked asteroid ids for a free-text query, or null when no index is available
+// (e.g. before the first ingest finishes) and the caller should scan instead
+export async function searchNames(
+  text: string,
+  exactOnly: boolean = false
+): Promise<{ ids: string[]; total: number } | null> {
+  loadedIndex ??= readSearchIndex();
+  const [index, columns] = await Promise.all([loadedIndex, getAsteroidColumns()]);
+  if (!index || !columns || index.count !== columns.count) return null;
+
+  const query = normalizeSearchText(text);
+  if (!query) return { ids: [], total: 0 };
+
+  const { rows, total } = rankRows(index, query, exactOnly);
+  return { ids: rows.map(row => columns.ids[row]), total };
+}
+
+// Run a filter query, answering its free-text term from the index when one is
+// loaded so results come back ranked instead of from a full scan
+export async function runQuery(
+  query: ParsedQuery,
+  page: number = 0,
+  pageSize: number = 50
+): Promise<{ results: Asteroid[]; total: number; plan: string }> {
+  const textTerm = query.terms.find((term): term is TextTerm => term.kind === 'text' && !term.negated);
+  if (textTerm) {
+    const ranked = await searchNames(textTerm.value, textTerm.match === 'exact');
+    if (ranked) {
+      const residual: ParsedQuery = { ...query, terms: query.terms.filter(term => term !== textTerm) };
+      return await queryAsteroids(residual, page, pageSize, ranked);
+    }
+  }
+  return await queryAsteroids(query, page, pageSize);
+}
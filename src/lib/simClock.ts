@@ -0,0 +1,160 @@
+// The simulation clock every subsystem reads. Time is a Julian Date in TDB,
+// the scale planetary and small-body ephemerides are computed in; the rate is
+// simulated seconds per real second and may be negative to run backwards.
+// The scene advances it once per frame and reads the frame-rate date through
+// getFrameJD(). Subscribers get immutable snapshots: right away on explicit
+// changes (date, rate, steps), and a few times a second while it runs.
+
+import { dateToJD } from './kepler';
+
+export const SECONDS_PER_DAY = 86400;
+// Mean Gregorian month and Julian year
+export const SECONDS_PER_MONTH = 30.436875 * SECONDS_PER_DAY;
+export const SECONDS_PER_YEAR = 365.25 * SECONDS_PER_DAY;
+
+export interface ClockState {
+  jd: number; // TDB
+  rate: number; // Simulated seconds per real second; 0 is paused
+}
+
+export const RATE_PRESETS: Array<{ label: string; rate: number }> = [
+  { label: '1x', rate: 1 },
+  { label: '1h/s', rate: 3600 },
+  { label: '1d/s', rate: SECONDS_PER_DAY },
+  { label: '1w/s', rate: 7 * SECONDS_PER_DAY },
+  { label: '1m/s', rate: SECONDS_PER_MONTH },
+  { label: '1y/s', rate: SECONDS_PER_YEAR },
+];
+
+export const STEP_INTERVALS: Array<{ label: string; seconds: number }> = [
+  { label: '1 hour', seconds: 3600 },
+  { label: '1 day', seconds: SECONDS_PER_DAY },
+  { label: '1 week', seconds: 7 * SECONDS_PER_DAY },
+  { label: '1 month', seconds: SECONDS_PER_MONTH },
+  { label: '1 year', seconds: SECONDS_PER_YEAR },
+];
+
+// TAI - UTC in seconds from each date on; UTC before 1972 is taken as 10 s
+// behind TAI, which is well inside what the ephemerides resolve anyway
+const LEAP_SECONDS: Array<[string, number]> = [
+  ['1972-01-01', 10], ['1972-07-01', 11], ['1973-01-01', 12], ['1974-01-01', 13],
+  ['1975-01-01', 14], ['1976-01-01', 15], ['1977-01-01', 16], ['1978-01-01', 17],
+  ['1979-01-01', 18], ['1980-01-01', 19], ['1981-07-01', 20], ['1982-07-01', 21],
+  ['1983-07-01', 22], ['1985-07-01', 23], ['1988-01-01', 24], ['1990-01-01', 25],
+  ['1991-01-01', 26], ['1992-07-01', 27], ['1993-07-01', 28], ['1994-07-01', 29],
+  ['1996-01-01', 30], ['1997-07-01', 31], ['1999-01-01', 32], ['2006-01-01', 33],
+  ['2009-01-01', 34], ['2012-07-01', 35], ['2015-07-01', 36], ['2017-01-01', 37],
+];
+const LEAP_SECOND_TABLE = LEAP_SECONDS.map(([date, seconds]) => ({ ms: Date.parse(date), seconds })).reverse();
+const TT_MINUS_TAI = 32.184;
+
+function taiMinusUtc(ms: number): number {
+  return LEAP_SECOND_TABLE.find(entry => ms >= entry.ms)?.seconds ?? 10;
+}
+
+// TDB - TT, periodic and under 2 ms
+function tdbMinusTt(jd: number): number {
+  const g = (357.53 + 0.98560028 * (jd - 2451545)) * (Math.PI / 180);
+  return 0.001657 * Math.sin(g) + 0.000014 * Math.sin(2 * g);
+}
+
+// Julian Date (TDB) of a UTC instant
+export function dateToTDB(date: Date): number {
+  const ms = date.getTime();
+  const jdUtc = dateToJD(date);
+  const seconds = taiMinusUtc(ms) + TT_MINUS_TAI + tdbMinusTt(jdUtc);
+  return jdUtc + seconds / SECONDS_PER_DAY;
+}
+
+// UTC instant of a Julian Date (TDB); the offset is looked up at the
+// approximate UTC time, which only matters within a minute of a leap second
+export function tdbToDate(jd: number): Date {
+  const approximate = (jd - 2440587.5) * SECONDS_PER_DAY * 1000;
+  const seconds = taiMinusUtc(approximate) + TT_MINUS_TAI + tdbMinusTt(jd);
+  return new Date(Math.round(approximate - seconds * 1000));
+}
+
+// Rate as shown to the user: the preset label when it is one, "-" when reversed
+export function formatClockRate(rate: number): string {
+  if (rate === 0) return 'Paused';
+  const preset = RATE_PRESETS.find(p => p.rate === Math.abs(rate));
+  const label = preset ? preset.label : `${Math.abs(rate).toLocaleString()}x`;
+  return rate < 0 ? `-${label}` : label;
+}
+
+// Snapshots of the running date go out at about 4 Hz, enough for readouts
+const PUBLISH_INTERVAL_MS = 250;
+
+const listeners = new Set<() => void>();
+let state: ClockState = { jd: dateToTDB(new Date()), rate: SECONDS_PER_DAY };
+// The date as of the last frame, ahead of the published snapshot while running
+let frameJD = state.jd;
+let publishedAt = 0;
+// Where the session started, for the elapsed-time readout
+const sessionStartJD = state.jd;
+
+// Changes that leave the date alone still carry the frame date forward
+function update(changes: Partial<ClockState>): void {
+  state = { ...state, jd: frameJD, ...changes };
+  frameJD = state.jd;
+  publishedAt = performance.now();
+  listeners.forEach(listener => listener());
+}
+
+// Advance by a frame of real time, publishing the date once the last
+// snapshot is old enough
+export function tickClock(realSeconds: number): void {
+  frameJD += (realSeconds * state.rate) / SECONDS_PER_DAY;
+  if (frameJD !== state.jd && performance.now() - publishedAt >= PUBLISH_INTERVAL_MS) {
+    update({ jd: frameJD });
+  }
+}
+
+// The current date for the render loop; UI reads snapshots from getClock()
+export function getFrameJD(): number {
+  return frameJD;
+}
+
+export function setClockDate(date: Date): void {
+  if (Number.isNaN(date.getTime())) return;
+  update({ jd: dateToTDB(date) });
+}
+
+export function setClockJD(jd: number): void {
+  if (!Number.isFinite(jd)) return;
+  update({ jd });
+}
+
+export function jumpToNow(): void {
+  setClockDate(new Date());
+}
+
+export function setClockRate(rate: number): void {
+  if (!Number.isFinite(rate)) return;
+  update({ rate });
+}
+
+// Move by a fixed interval; negative steps go back
+export function stepClock(seconds: number): void {
+  update({ jd: frameJD + seconds / SECONDS_PER_DAY });
+}
+
+// Both readouts follow the published snapshot
+export function getClockDate(): Date {
+  return tdbToDate(state.jd);
+}
+
+// Simulated seconds since the page was opened; negative after running backwards
+export function getElapsedSeconds(): number {
+  return (state.jd - sessionStartJD) * SECONDS_PER_DAY;
+}
+
+// For useSyncExternalStore
+export function subscribeClock(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getClock(): ClockState {
+  return state;
+}
@@ -0,0 +1,94 @@
+import { type Asteroid } from './indexedDB';
+
+// Data quality rules run on every parsed row before defaults are filled in,
+// so a missing value can still be told apart from a real zero. Failing rules
+// are stored on the asteroid as qualityFlags and counted into a report.
+
+export type QualityFlag =
+  | 'missing-elements'
+  | 'hyperbolic'
+  | 'invalid-a'
+  | 'q-exceeds-a'
+  | 'inclination-range'
+  | 'diameter-without-h'
+  | 'epoch-outlier'
+  | 'missing-albedo'
+  | 'missing-moid';
+
+export interface QualityRule {
+  flag: QualityFlag;
+  label: string;
+  description: string;
+  test(parsed: Partial<Asteroid>): boolean;
+}
+
+// Epochs outside 1900-2100 (JD) are almost certainly unit or parsing errors
+const MIN_EPOCH_JD = 2415020.5;
+const MAX_EPOCH_JD = 2488069.5;
+
+const isMissing = (value: number | undefined) => value === undefined || isNaN(value);
+
+export const QUALITY_RULES: QualityRule[] = [
+  {
+    flag: 'missing-elements',
+    label: 'Missing orbital elements',
+    description: 'a, e or i is missing, so the position is computed from zeros',
+    test: ({ a, e, i }) => isMissing(a) || isMissing(e) || isMissing(i),
+  },
+  {
+    flag: 'hyperbolic',
+    label: 'Unbound orbit (e ≥ 1)',
+    description: 'The belt renderer only draws elliptical orbits',
+    test: ({ e }) => !isMissing(e) && e! >= 1,
+  },
+  {
+    flag: 'invalid-a',
+    label: 'Non-positive semi-major axis',
+    description: 'a ≤ 0 is impossible for an elliptical orbit',
+    test: ({ a, e }) => !isMissing(a) && a! <= 0 && (isMissing(e) || e! < 1),
+  },
+  {
+    flag: 'q-exceeds-a',
+    label: 'Perihelion beyond semi-major axis',
+    description: 'q > a would need a negative eccentricity',
+    test: ({ q, a }) => !isMissing(q) && !isMissing(a) && a! > 0 && q! > a! * (1 + 1e-6),
+  },
+  {
+    flag: 'inclination-range',
+    label: 'Inclination out of range',
+    description: 'i must lie between 0° and 180°',
+    test: ({ i }) => !isMissing(i) && (i! < 0 || i! > 180),
+  },
+  {
+    flag: 'diameter-without-h',
+    label: 'Diameter without H',
+    description: 'A measured diameter with no absolute magnitude suggests shifted columns',
+    test: ({ diameter, H }) => !isMissing(diameter) && diameter! > 0 && isMissing(H),
+  },
+  {
+    flag: 'epoch-outlier',
+    label: 'Epoch outlier',
+    description: 'Epoch is missing or outside 1900-2100',
+    test: ({ epoch }) => isMissing(epoch) || epoch! < MIN_EPOCH_JD || epoch! > MAX_EPOCH_JD,
+  },
+  {
+    flag: 'missing-albedo',
+    label: 'Missing albedo',
+    description: 'Albedo defaulted to 0.1; size-based estimates are guesses',
+    test: ({ albedo }) => isMissing(albedo),
+  },
+  {
+    flag: 'missing-moid',
+    label: 'Missing Earth MOID',
+    description: 'MOID defaulted to 999 AU; accessibility is unknown',
+    test: ({ moid }) => isMissing(moid),
+  },
+];
+
+export function validateAsteroid(parsed: Partial<Asteroid>): QualityFlag[] {
+  return QUALITY_RULES.filter(rule => rule.test(parsed)).map(rule => rule.flag);
+}
+
+export function getQualityRule(flag: string): QualityRule | undefined {
+  return QUALITY_RULES.find(rule => rule.flag === flag);
+}
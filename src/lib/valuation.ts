@@ -0,0 +1,167 @@
+import { type Asteroid } from './indexedDB';
+import { type DiameterSource, estimateDiameter } from './diameter';
+
+// Resource valuation: contained mass of each commodity times its price.
+//
+//   diameter  measured, or estimated from H and albedo (see diameter.ts)
+//   mass      sphere of that diameter at the profile's bulk density
+//   value     sum over commodities of mass * mass fraction * price ($/kg)
+//
+// The value range follows the diameter range; mass goes with its cube.
+//
+// Nothing is scaled, randomized or floored; the numbers are the contained value
+// at the prices in the table, not what mining would actually return.
+
+export type Commodity = 'water' | 'iron' | 'nickel' | 'cobalt' | 'pgm';
+
+export type PriceTable = Record<Commodity, number>; // $/kg
+
+export const COMMODITIES: { id: Commodity; label: string }[] = [
+  { id: 'water', label: 'Water' },
+  { id: 'iron', label: 'Iron' },
+  { id: 'nickel', label: 'Nickel' },
+  { id: 'cobalt', label: 'Cobalt' },
+  { id: 'pgm', label: 'Platinum-group metals' },
+];
+
+// Metals at approximate terrestrial spot prices. Water is worthless on Earth,
+// so it is priced as propellant in orbit, well below the cost of launching it.
+export const DEFAULT_PRICES: PriceTable = {
+  water: 500,
+  iron: 0.1,
+  nickel: 16,
+  cobalt: 33,
+  pgm: 30000,
+};
+
+export type TaxonomyClass = 'C' | 'S' | 'M' | 'X' | 'V';
+
+export interface CompositionProfile {
+  taxonomy: TaxonomyClass;
+  label: string;
+  density: number; // Bulk density, kg/m³
+  fractions: Record<Commodity, number>; // Mass fractions
+  analog: string; // Meteorite class the fractions come from
+}
+
+// Densities follow Carry (2012) averages per complex; mass fractions follow
+// bulk compositions of the usual meteorite analogs
+export const COMPOSITION_PROFILES: Record<TaxonomyClass, CompositionProfile> = {
+  C: {
+    taxonomy: 'C',
+    label: 'Carbonaceous',
+    density: 1330,
+    fractions: { water: 0.1, iron: 0.18, nickel: 0.011, cobalt: 0.0005, pgm: 3e-6 },
+    analog: 'CI/CM chondrite',
+  },
+  S: {
+    taxonomy: 'S',
+    label: 'Stony',
+    density: 2720,
+    fractions: { water: 0, iron: 0.2, nickel: 0.012, cobalt: 0.0006, pgm: 4e-6 },
+    analog: 'Ordinary (H/L) chondrite',
+  },
+  M: {
+    taxonomy: 'M',
+    label: 'Metallic',
+    density: 3490,
+    fractions: { water: 0, iron: 0.88, nickel: 0.1, cobalt: 0.005, pgm: 2e-5 },
+    analog: 'Iron meteorite',
+  },
+  X: {
+    taxonomy: 'X',
+    label: 'X-complex',
+    density: 1850,
+    fractions: { water: 0.02, iron: 0.4, nickel: 0.04, cobalt: 0.002, pgm: 1e-5 },
+    analog: 'Enstatite chondrite / iron mix',
+  },
+  V: {
+    taxonomy: 'V',
+    label: 'Basaltic',
+    density: 3000,
+    fractions: { water: 0, iron: 0.14, nickel: 1e-4, cobalt: 2e-5, pgm: 1e-8 },
+    analog: 'HED achondrite',
+  },
+};
+
+// First letter of a Tholen or SMASS/Bus-DeMeo type to its complex
+const SPECTRAL_COMPLEX: Record<string, TaxonomyClass> = {
+  C: 'C', B: 'C', F: 'C', G: 'C', D: 'C', T: 'C',
+  S: 'S', Q: 'S', A: 'S', K: 'S', L: 'S', O: 'S', R: 'S',
+  M: 'M',
+  X: 'X', E: 'X', P: 'X',
+  V: 'V',
+};
+
+export interface ValuationBreakdown {
+  taxonomy: TaxonomyClass;
+  taxonomySource: 'spectral' | 'albedo' | 'default';
+  diameterKm: number;
+  diameterSource: DiameterSource;
+  massKg: number;
+  commodities: Record<Commodity, { massKg: number; value: number }>;
+  total: number;
+  totalMin: number;
+  totalMax: number;
+}
+
+// Spectral types come through as extra string columns (SBDB spec_B / spec_T)
+type ValuationInput = Partial<Asteroid> & { spec_B?: string; spec_T?: string };
+
+// Albedo bands: dark objects are mostly C-complex, very bright ones Vestoids
+export function inferTaxonomy(asteroid: ValuationInput): { taxonomy: TaxonomyClass; source: ValuationBreakdown['taxonomySource'] } {
+  for (const spectral of [asteroid.spec_B, asteroid.spec_T]) {
+    const complex = SPECTRAL_COMPLEX[(spectral || '').trim().charAt(0).toUpperCase()];
+    if (complex) return { taxonomy: complex, source: 'spectral' };
+  }
+
+  const { albedo } = asteroid;
+  const albedoKnown = albedo !== undefined && albedo > 0 && !asteroid.qualityFlags?.includes('missing-albedo');
+  if (!albedoKnown) return { taxonomy: 'C', source: 'default' }; // Most common type
+  if (albedo < 0.1) return { taxonomy: 'C', source: 'albedo' };
+  if (albedo < 0.35) return { taxonomy: 'S', source: 'albedo' };
+  return { taxonomy: 'V', source: 'albedo' };
+}
+
+export function valueAsteroid(asteroid: ValuationInput, prices: PriceTable = DEFAULT_PRICES): ValuationBreakdown {
+  const { taxonomy, source } = inferTaxonomy(asteroid);
+  const profile = COMPOSITION_PROFILES[taxonomy];
+
+  const { diameter: diameterKm, diameterMin, diameterMax, diameterSource } = estimateDiameter(asteroid);
+  const radiusM = (diameterKm * 1000) / 2;
+  const massKg = (4 / 3) * Math.PI * radiusM ** 3 * profile.density;
+
+  const commodities = {} as ValuationBreakdown['commodities'];
+  let total = 0;
+  for (const { id } of COMMODITIES) {
+    const commodityMass = massKg * profile.fractions[id];
+    const value = commodityMass * (prices[id] || 0);
+    commodities[id] = { massKg: commodityMass, value };
+    total += value;
+  }
+
+  const cube = (ratio: number) => (diameterKm > 0 ? ratio ** 3 : 0);
+  return {
+    taxonomy,
+    taxonomySource: source,
+    diameterKm,
+    diameterSource,
+    massKg,
+    commodities,
+    total,
+    totalMin: total * cube(diameterMin / diameterKm),
+    totalMax: total * cube(diameterMax / diameterKm),
+  };
+}
+
+// Prices must be finite and non-negative; anything else falls back to the default
+export function normalizePrices(prices: Partial<Record<string, unknown>> | null | undefined): PriceTable {
+  const table = { ...DEFAULT_PRICES };
+  for (const { id } of COMMODITIES) {
+    const raw = prices?.[id];
+    if (raw === undefined || raw === null || raw === '') continue;
+    const value = Number(raw);
+    if (Number.isFinite(value) && value >= 0) table[id] = value;
+  }
+  return table;
+}
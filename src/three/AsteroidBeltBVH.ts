@@ -1,8 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import * as THREE from 'three';
 import { type Asteroid } from '../lib/indexedDB';
+import { type AsteroidColumns, FLAG_NEO, FLAG_PHA, getAsteroidAtIndex } from '../lib/columnarCache';
+import { GAUSS_K, conicPosition, timeSincePerihelion, perifocalToEcliptic, solveKepler } from '../lib/kepler';
+import { getFrameJD } from '../lib/simClock';
+import { estimateDiameter, formatDiameter } from '../lib/diameter';
 import { acceleratedRaycast, computeBatchedBoundsTree } from 'three-mesh-bvh';
-import { createRadixSort, extendBatchedMeshPrototype } from '@three.ez/batched-mesh-extensions';
+import { BatchedMeshBVH, createRadixSort, extendBatchedMeshPrototype } from '@three.ez/batched-mesh-extensions';
+import { applyOrbitPropagation } from './shaders';
 
 // Extend BatchedMesh prototype with BVH methods
 extendBatchedMeshPrototype();
@@ -32,6 +37,86 @@ function createRockyGeometry(baseGeometry: THREE.BufferGeometry, roughness: numb
   return geometry;
 }
 
+const DEG = Math.PI / 180;
+const MJD_TO_JD = 2400000.5;
+// Floats per instance in the orbit texture (two RGBA texels)
+const ORBIT_STRIDE = 8;
+const ORBIT_TEXTURE_WIDTH = 2048;
+// Instance bounds are padded for this many days of motion either side of the
+// date they were written at, and rewritten before that runs out
+const BOUNDS_INTERVAL_DAYS = 30;
+// Frame time spent rewriting instance bounds
+const BOUNDS_BUDGET_MS = 3;
+// Finding the asteroids near the camera solves Kepler's equation for
+// thousands of instances, so it runs a few times a second
+const LABEL_SCAN_INTERVAL_MS = 250;
+
+// CPU twin of the vertex shader in applyOrbitPropagation, for labels and fly-to
+function propagatedPosition(orbits: Float32Array, index: number, days: number, au: number, target: THREE.Vector3): THREE.Vector3 {
+  const base = index * ORBIT_STRIDE;
+  const e = orbits[base + 3];
+  if (e < 0) return target.fromArray(orbits, base);
+
+  const a = Math.hypot(orbits[base], orbits[base + 1], orbits[base + 2]) / au;
+  const E = solveKepler(orbits[base + 7] + (GAUSS_K / Math.pow(a, 1.5)) * days, e);
+  const c = Math.cos(E) - e;
+  const s = Math.sin(E);
+  return target.set(
+    c * orbits[base] + s * orbits[base + 4],
+    c * orbits[base + 1] + s * orbits[base + 5],
+    c * orbits[base + 2] + s * orbits[base + 6]
+  );
+}
+
+// Farthest an instance can move within BOUNDS_INTERVAL_DAYS: its perihelion
+// speed for the whole interval, but never more than across its orbit
+function motionMargin(orbits: Float32Array, index: number, au: number): number {
+  const base = index * ORBIT_STRIDE;
+  const e = orbits[base + 3];
+  if (e < 0) return 0;
+
+  const a = Math.hypot(orbits[base], orbits[base + 1], orbits[base + 2]) / au;
+  const speed = GAUSS_K * Math.sqrt((1 + e) / (a * (1 - e)));
+  return Math.min(speed * BOUNDS_INTERVAL_DAYS, 2 * a * (1 + e)) * au;
+}
+
+type BoundsNode = BatchedMeshBVH['bvh']['root'];
+
+// Moving leaves only ever grows their parents; shrink them back to their children
+function refitBounds(node: BoundsNode | null): void {
+  if (!node?.left || !node.right) return;
+  refitBounds(node.left);
+  refitBounds(node.right);
+  const box = node.box;
+  const left = node.left.box;
+  const right = node.right.box;
+  for (let k = 0; k < 6; k += 2) {
+    box[k] = Math.min(left[k], right[k]);
+    box[k + 1] = Math.max(left[k + 1], right[k + 1]);
+  }
+}
+
+// BVH over instance boxes padded by each asteroid's motion margin, so it
+// stays valid while the shader moves the asteroids away from their matrices
+class OrbitBoundsBVH extends BatchedMeshBVH {
+  private margins: Float32Array;
+
+  constructor(target: THREE.BatchedMesh, margins: Float32Array) {
+    super(target, THREE.WebGLCoordinateSystem);
+    this.margins = margins;
+  }
+
+  protected getBox(id: number, array: Float32Array): Float32Array {
+    super.getBox(id, array);
+    const margin = this.margins[id];
+    for (let k = 0; k < 6; k += 2) {
+      array[k] -= margin;
+      array[k + 1] += margin;
+    }
+    return array;
+  }
+}
+
 // Asteroid belt using BatchedMesh with BVH for proper frustum culling
 export class AsteroidBeltBVH {
   scene: THREE.Scene;
@@ -39,10 +124,24 @@ export class AsteroidBeltBVH {
   // BatchedMesh for all asteroids
   batchedMesh: THREE.BatchedMesh | null = null;
   
-  // Data
-  asteroidData: Asteroid[] = [];
-  private instancePositions: THREE.Vector3[] = [];
-  private positionMap: Map<number, Asteroid> = new Map();
+  // Data: columns come from the columnar cache; orbits are packed per instance
+  // as the GPU propagates them (see applyOrbitPropagation)
+  private columns: AsteroidColumns | null = null;
+  // Column index of each asteroid id, for fly-to and selection
+  private indexById = new Map<string, number>();
+  private orbits = new Float32Array(0);
+  private orbitTexture: THREE.DataTexture | null = null;
+  private orbitDays: { value: number } | null = null;
+  // Motion margin per instance (see motionMargin)
+  private margins = new Float32Array(0);
+  
+  // Orbits are packed at referenceJD and the shader moves them to julianDate.
+  // Instance matrices only serve culling, sorting and the BVH; their positions
+  // were written at dates within boundsRange and are rewritten by boundsPass.
+  private referenceJD = getFrameJD();
+  private julianDate = this.referenceJD;
+  private boundsRange = { min: this.referenceJD, max: this.referenceJD };
+  private boundsPass: { next: number; min: number; max: number } | null = null;
   
   // Textures
   private moonTexture: THREE.Texture | null = null;
@@ -50,6 +149,10 @@ export class AsteroidBeltBVH {
   
   // Nearby asteroid labels
   private nearbyLabels: Map<number, THREE.Sprite> = new Map();
+  // Labels whose asteroid record is still being fetched, and the set that should be shown
+  private pendingLabels: Set<number> = new Set();
+  private wantedLabels: Set<number> = new Set();
+  private lastLabelScan = 0;
   
   // AU scale
   private AU = 100;
@@ -63,7 +166,7 @@ export class AsteroidBeltBVH {
   public freeze = false;
   
   // BVH reference for toggling
-  private bvhRef: unknown = null;
+  private bvhRef: OrbitBoundsBVH | null = null;
   private originalOnBeforeRender: typeof THREE.Object3D.prototype.onBeforeRender | null = null;
   
   // Visible count tracked internally
@@ -81,9 +184,78 @@ export class AsteroidBeltBVH {
   // Setters for performance options
   setFrustumCullingEnabled(enabled: boolean): void {
     this.useBVH = enabled;
-    if (this.batchedMesh) {
-      (this.batchedMesh as any).bvh = enabled ? this.bvhRef : null;
+    this.applyCulling();
+  }
+  
+  // Per-instance culling and sorting read the instance matrices. The BVH pads
+  // them for BOUNDS_INTERVAL_DAYS of motion; without it, or once the bounds
+  // fall further behind the clock than that, culling needs them exact. When
+  // neither holds the whole belt is drawn unsorted until a bounds pass catches up.
+  private applyCulling(): void {
+    const mesh = this.batchedMesh;
+    if (!mesh) return;
+    const drift = Math.max(Math.abs(this.julianDate - this.boundsRange.min), Math.abs(this.julianDate - this.boundsRange.max));
+    const bvh = this.useBVH && drift <= BOUNDS_INTERVAL_DAYS ? this.bvhRef : null;
+    const culled = bvh !== null || drift === 0;
+    if (mesh.perObjectFrustumCulled !== culled) {
+      (mesh as any)._visibilityChanged = true;
+    }
+    mesh.perObjectFrustumCulled = culled;
+    mesh.sortObjects = culled;
+    (mesh as any).bvh = bvh;
+  }
+  
+  // Move every asteroid to a simulated date through the shader uniform
+  setJulianDate(jd: number): void {
+    const paused = jd === this.julianDate;
+    this.julianDate = jd;
+    if (this.orbitDays) this.orbitDays.value = jd - this.referenceJD;
+    this.refreshBounds(paused);
+    this.applyCulling();
+  }
+  
+  // Rewrite instance positions and BVH boxes at the current date, a slice per
+  // frame. A pass starts once the bounds are half way to expiring, or when the
+  // clock is paused so a paused view culls against exact positions.
+  private refreshBounds(paused: boolean): void {
+    const mesh = this.batchedMesh;
+    const bvh = this.bvhRef;
+    if (!mesh || !bvh || !this.columns) return;
+    
+    const jd = this.julianDate;
+    if (!this.boundsPass) {
+      const drift = Math.max(Math.abs(jd - this.boundsRange.min), Math.abs(jd - this.boundsRange.max));
+      if (drift === 0 || (drift < BOUNDS_INTERVAL_DAYS / 2 && !paused)) return;
+      this.boundsPass = { next: 0, min: jd, max: jd };
     }
+    
+    const pass = this.boundsPass;
+    pass.min = Math.min(pass.min, jd);
+    pass.max = Math.max(pass.max, jd);
+    this.boundsRange.min = Math.min(this.boundsRange.min, jd);
+    this.boundsRange.max = Math.max(this.boundsRange.max, jd);
+    
+    // Only the CPU copy changes: the shader replaces the translation, so
+    // there is nothing to upload
+    const matrices = (mesh as any)._matricesTexture.image.data as Float32Array;
+    const days = jd - this.referenceJD;
+    const position = new THREE.Vector3();
+    const count = this.columns.count;
+    const deadline = performance.now() + BOUNDS_BUDGET_MS;
+    
+    while (pass.next < count && performance.now() < deadline) {
+      const end = Math.min(pass.next + 1000, count);
+      for (let i = pass.next; i < end; i++) {
+        propagatedPosition(this.orbits, i, days, this.AU, position).toArray(matrices, i * 16 + 12);
+        bvh.move(i);
+      }
+      pass.next = end;
+    }
+    if (pass.next < count) return;
+    
+    refitBounds(bvh.bvh.root);
+    this.boundsRange = { min: pass.min, max: pass.max };
+    this.boundsPass = null;
   }
   
   setLODEnabled(enabled: boolean): void {
@@ -109,7 +281,7 @@ export class AsteroidBeltBVH {
   getVisibleCount(): number {
     if (this.batchedMesh) {
       // BatchedMesh tracks visible instances internally
-      this._visibleCount = (this.batchedMesh as any)._visibleCount ?? this.instancePositions.length;
+      this._visibleCount = (this.batchedMesh as any)._visibleCount ?? this.columns?.count ?? 0;
       return this._visibleCount;
     }
     return 0;
@@ -117,29 +289,55 @@ export class AsteroidBeltBVH {
   
   // Get asteroid position by asteroid data
   getAsteroidPosition(asteroid: Asteroid): THREE.Vector3 {
-    // Find asteroid in data
-    const index = this.asteroidData.findIndex(a => 
-      a.id === asteroid.id || a.name === asteroid.name || a.pdes === asteroid.pdes
-    );
+    // Find asteroid in the loaded columns
+    const index = this.indexById.get(asteroid.id);
     
-    if (index !== -1 && this.instancePositions[index]) {
-      return this.instancePositions[index].clone();
+    if (index !== undefined) {
+      return this.getPositionAtIndex(index)!;
     }
     
-    // Fallback: calculate from orbital elements
-    const a = asteroid.a * this.AU;
-    const e = asteroid.e;
-    const M = ((asteroid.ma || 0) * Math.PI) / 180;
-    
-    let E = M;
-    for (let j = 0; j < 5; j++) {
-      E = M + e * Math.sin(E);
+    // Fallback: calculate from orbital elements at their epoch
+    return this.orbitPosition(asteroid.a, asteroid.e, asteroid.i, asteroid.om, asteroid.w, asteroid.ma || 0, new THREE.Vector3());
+  }
+
+  // Pack one instance's orbit for the shader: elliptic orbits as scaled
+  // perifocal axes and the mean anomaly carried from their own epoch to the
+  // reference date, anything else as a fixed position
+  private writeOrbit(columns: AsteroidColumns, index: number): void {
+    const base = index * ORBIT_STRIDE;
+    const a = columns.a[index];
+    const e = columns.e[index];
+    
+    if (!(a > 0) || !(e >= 0 && e < 1)) {
+      const position = this.orbitPosition(a, e, columns.i[index], columns.om[index], columns.w[index], columns.ma[index], new THREE.Vector3());
+      this.orbits.set([position.x, position.y, position.z, -1, 0, 0, 0, 0], base);
+      return;
     }
     
-    const x = a * (Math.cos(E) - e);
-    const y = a * Math.sqrt(1 - e * e) * Math.sin(E);
+    // Rows without an epoch are taken as current at the reference date
+    const epochJD = columns.epoch_mjd[index] > 0 ? columns.epoch_mjd[index] + MJD_TO_JD : this.referenceJD;
+    const n = GAUSS_K / Math.pow(a, 1.5);
+    const M = (columns.ma[index] * DEG + n * (this.referenceJD - epochJD)) % (2 * Math.PI);
     
-    return new THREE.Vector3(x, 0, y);
+    const angles = { i: columns.i[index], om: columns.om[index], w: columns.w[index] };
+    const P = perifocalToEcliptic(a * this.AU, 0, angles);
+    const Q = perifocalToEcliptic(0, a * Math.sqrt(1 - e * e) * this.AU, angles);
+    // Scene y is up; the ecliptic frame has z up
+    this.orbits.set([P.x, P.z, P.y, e, Q.x, Q.z, Q.y, M < 0 ? M + 2 * Math.PI : M], base);
+  }
+
+  // Scene position at the element epoch. Any conic works; rows whose elements
+  // cannot describe one (q <= 0) are drawn on a circle of radius |a|, and rows
+  // without a semi-major axis at the origin.
+  private orbitPosition(a: number, e: number, i: number, om: number, w: number, ma: number, target: THREE.Vector3): THREE.Vector3 {
+    let q = a * (1 - e);
+    if (!(q > 0) || !Number.isFinite(e)) {
+      q = Math.abs(a);
+      e = 0;
+    }
+    if (!(q > 0)) return target.set(0, 0, 0);
+    const { x, y, z } = conicPosition({ q, e, i, om, w }, timeSincePerihelion(q, e, ma));
+    return target.set(x * this.AU, z * this.AU, y * this.AU);
   }
 
   private loadTextures(): void {
@@ -162,14 +360,26 @@ export class AsteroidBeltBVH {
     this.loadingAborted = true;
   }
 
-  async loadAsteroids(asteroids: Asteroid[]): Promise<void> {
+  // Build the belt with positions for jd; later dates are reached through setJulianDate
+  async loadAsteroids(columns: AsteroidColumns, jd: number = this.julianDate): Promise<void> {
     if (this.loadingAborted) return;
     
-    this.asteroidData = asteroids;
-    const total = asteroids.length;
+    // Replace any previously loaded catalog (e.g. after a dataset update)
+    this.clearInstances();
+    
+    this.columns = columns;
+    const total = columns.count;
+    this.referenceJD = jd;
+    this.julianDate = jd;
+    this.boundsRange = { min: jd, max: jd };
     
     if (total === 0) return;
     
+    const textureHeight = Math.ceil((total * ORBIT_STRIDE / 4) / ORBIT_TEXTURE_WIDTH);
+    this.orbits = new Float32Array(ORBIT_TEXTURE_WIDTH * textureHeight * 4);
+    this.orbitTexture = new THREE.DataTexture(this.orbits, ORBIT_TEXTURE_WIDTH, textureHeight, THREE.RGBAFormat, THREE.FloatType);
+    this.margins = new Float32Array(total);
+    
     // Create geometries for different asteroid types (will be used for LOD)
     const baseGeometry = new THREE.IcosahedronGeometry(1, 2);
     const rockyGeometry = createRockyGeometry(baseGeometry, 0.4);
@@ -182,6 +392,7 @@ export class AsteroidBeltBVH {
       vertexColors: true,
       flatShading: true,
     });
+    this.orbitDays = applyOrbitPropagation(material, this.orbitTexture, this.AU, GAUSS_K);
     
     // Calculate vertex and index counts
     const vertexCount = rockyGeometry.attributes.position.count * 2; // Extra space for potential LOD
@@ -190,6 +401,9 @@ export class AsteroidBeltBVH {
     // Create BatchedMesh
     this.batchedMesh = new THREE.BatchedMesh(total, vertexCount, indexCount, material);
     this.batchedMesh.name = 'AsteroidBeltBVH';
+    // The belt surrounds the Sun and its instances move, so a bounding sphere
+    // would rarely cull it and would go stale
+    this.batchedMesh.frustumCulled = false;
     
     // Enable radix sort for better performance
     (this.batchedMesh as any).customSort = createRadixSort(this.batchedMesh);
@@ -216,40 +430,12 @@ export class AsteroidBeltBVH {
       for (let i = processedCount; i < endIndex; i++) {
         if (this.loadingAborted) return;
         
-        const asteroid = asteroids[i];
-        
-        // Calculate position from orbital elements
-        const a = asteroid.a * this.AU;
-        const e = asteroid.e;
-        const inc = (asteroid.i * Math.PI) / 180;
-        const omega = ((asteroid.om || 0) * Math.PI) / 180;
-        const w = ((asteroid.w || 0) * Math.PI) / 180;
-        const M = ((asteroid.ma || Math.random() * 360) * Math.PI) / 180;
-        
-        // Solve Kepler's equation (simplified)
-        let E = M;
-        for (let j = 0; j < 5; j++) {
-          E = M + e * Math.sin(E);
-        }
-        
-        const x = a * (Math.cos(E) - e);
-        const y = a * Math.sqrt(1 - e * e) * Math.sin(E);
+        this.indexById.set(columns.ids[i], i);
         
-        // Rotate by argument of perihelion and longitude of ascending node
-        const cosW = Math.cos(w);
-        const sinW = Math.sin(w);
-        const cosO = Math.cos(omega);
-        const sinO = Math.sin(omega);
-        const cosI = Math.cos(inc);
-        const sinI = Math.sin(inc);
-        
-        const xEcl = (cosO * cosW - sinO * sinW * cosI) * x + (-cosO * sinW - sinO * cosW * cosI) * y;
-        const yEcl = (sinO * cosW + cosO * sinW * cosI) * x + (-sinO * sinW + cosO * cosW * cosI) * y;
-        const zEcl = sinW * sinI * x + cosW * sinI * y;
-        
-        position.set(xEcl, zEcl, yEcl);
-        this.instancePositions.push(position.clone());
-        this.positionMap.set(i, asteroid);
+        // Position at the reference date; the matrix keeps it for culling and the BVH
+        this.writeOrbit(columns, i);
+        this.margins[i] = motionMargin(this.orbits, i, this.AU);
+        propagatedPosition(this.orbits, i, 0, this.AU, position);
         
         // Random rotation
         quaternion.setFromEuler(new THREE.Euler(
@@ -259,7 +445,8 @@ export class AsteroidBeltBVH {
         ));
         
         // Scale based on asteroid size
-        const diameter = asteroid.diameter || (0.5 + Math.random() * 2);
+        // Sizes without a measurement are estimated from H; random only when H is missing too
+        const diameter = columns.diameter[i] || (0.5 + Math.random() * 2);
         const s = Math.max(0.1, Math.min(diameter * 0.3, 3));
         scale.set(s, s * (0.7 + Math.random() * 0.6), s * (0.7 + Math.random() * 0.6));
         
@@ -268,8 +455,8 @@ export class AsteroidBeltBVH {
         this.batchedMesh!.setMatrixAt(instanceId, matrix.compose(position, quaternion, scale));
         
         // Color based on asteroid type
-        const isNEO = asteroid.neo === true || String(asteroid.neo).toUpperCase() === 'Y';
-        const isPHA = asteroid.pha === true || String(asteroid.pha).toUpperCase() === 'Y';
+        const isNEO = (columns.flags[i] & FLAG_NEO) !== 0;
+        const isPHA = (columns.flags[i] & FLAG_PHA) !== 0;
         
         if (isPHA) {
           color.setHSL(0, 0.8, 0.5); // Red for potentially hazardous
@@ -296,17 +483,18 @@ export class AsteroidBeltBVH {
     
     if (this.loadingAborted) return;
     
+    this.orbitTexture.needsUpdate = true;
+    
     // Compute BLAS (bottom-level acceleration structure) BVH
     (this.batchedMesh as any).computeBoundsTree();
     
     // Compute TLAS (top-level acceleration structure) BVH
-    (this.batchedMesh as any).computeBVH(THREE.WebGLCoordinateSystem);
-    
-    // Store BVH reference for toggling
-    this.bvhRef = (this.batchedMesh as any).bvh;
+    this.bvhRef = new OrbitBoundsBVH(this.batchedMesh, this.margins);
+    this.bvhRef.create();
     
     // Store original onBeforeRender for freeze toggle
     this.originalOnBeforeRender = this.batchedMesh.onBeforeRender;
+    this.applyCulling();
     
     // Add to scene
     this.scene.add(this.batchedMesh);
@@ -320,6 +508,13 @@ export class AsteroidBeltBVH {
     
     const cameraPos = camera.position;
     
+    const now = performance.now();
+    if (now - this.lastLabelScan < LABEL_SCAN_INTERVAL_MS) {
+      this.followLabels(cameraPos);
+      return;
+    }
+    this.lastLabelScan = now;
+    
     // Calculate distance to asteroid belt center
     const beltCenter = 2.7 * this.AU;
     const distToCenter = Math.sqrt(cameraPos.x * cameraPos.x + cameraPos.z * cameraPos.z);
@@ -330,15 +525,15 @@ export class AsteroidBeltBVH {
     const nearbyAsteroids: { index: number; distance: number }[] = [];
     
     // Only check nearby asteroids if close to the belt
-    if (minDist < 500) {
+    if (minDist < 500 && this.columns) {
+      const count = this.columns.count;
       const maxChecks = minDist < 100 ? 20000 : 5000;
-      const step = Math.max(1, Math.floor(this.instancePositions.length / maxChecks));
+      const step = Math.max(1, Math.floor(count / maxChecks));
+      const days = this.julianDate - this.referenceJD;
+      const position = new THREE.Vector3();
       
-      for (let i = 0; i < this.instancePositions.length; i += step) {
-        const pos = this.instancePositions[i];
-        if (!pos) continue;
-        
-        const dist = cameraPos.distanceTo(pos);
+      for (let i = 0; i < count; i += step) {
+        const dist = propagatedPosition(this.orbits, i, days, this.AU, position).distanceTo(cameraPos);
         
         if (dist < nearbyThreshold) {
           nearbyAsteroids.push({ index: i, distance: dist });
@@ -355,6 +550,7 @@ export class AsteroidBeltBVH {
     nearbyAsteroids.sort((a, b) => a.distance - b.distance);
     const closestAsteroids = nearbyAsteroids.slice(0, 5);
     const closestIndices = new Set(closestAsteroids.map(a => a.index));
+    this.wantedLabels = closestIndices;
     
     // Remove labels for asteroids no longer nearby
     for (const [index, sprite] of this.nearbyLabels) {
@@ -369,27 +565,49 @@ export class AsteroidBeltBVH {
     // Add labels for new nearby asteroids
     for (const { index, distance } of closestAsteroids) {
       if (!this.nearbyLabels.has(index)) {
-        const asteroid = this.positionMap.get(index);
-        const position = this.instancePositions[index];
-        if (asteroid && position) {
-          const label = this.createAsteroidLabel(asteroid, position);
-          this.scene.add(label);
-          this.nearbyLabels.set(index, label);
-        }
+        this.requestLabel(index);
       } else {
         // Update existing label position and scale based on distance
-        const label = this.nearbyLabels.get(index)!;
-        const position = this.instancePositions[index];
-        if (position) {
-          label.position.copy(position).add(new THREE.Vector3(0, 3, 0));
-          const scale = Math.max(2, 8 - distance * 0.3);
-          label.scale.set(scale, scale / 4, 1);
-          label.material.opacity = Math.max(0.3, 1 - distance / 15);
-        }
+        const position = this.getPositionAtIndex(index);
+        if (position) this.placeLabel(this.nearbyLabels.get(index)!, position, distance);
       }
     }
   }
 
+  // Keep labels on their asteroids between scans
+  private followLabels(cameraPos: THREE.Vector3): void {
+    for (const [index, label] of this.nearbyLabels) {
+      const position = this.getPositionAtIndex(index);
+      if (position) this.placeLabel(label, position, position.distanceTo(cameraPos));
+    }
+  }
+
+  private placeLabel(label: THREE.Sprite, position: THREE.Vector3, distance: number): void {
+    label.position.copy(position).add(new THREE.Vector3(0, 3, 0));
+    const scale = Math.max(2, 8 - distance * 0.3);
+    label.scale.set(scale, scale / 4, 1);
+    label.material.opacity = Math.max(0.3, 1 - distance / 15);
+  }
+
+  // Fetch the record behind a label; it is only added if still wanted on arrival
+  private requestLabel(index: number): void {
+    const columns = this.columns;
+    if (!columns || this.pendingLabels.has(index)) return;
+    this.pendingLabels.add(index);
+    
+    getAsteroidAtIndex(columns, index).then(asteroid => {
+      this.pendingLabels.delete(index);
+      if (!asteroid || this.columns !== columns || !this.wantedLabels.has(index) || this.nearbyLabels.has(index)) return;
+      
+      const label = this.createAsteroidLabel(asteroid, this.getPositionAtIndex(index)!);
+      this.scene.add(label);
+      this.nearbyLabels.set(index, label);
+    }).catch(error => {
+      this.pendingLabels.delete(index);
+      console.warn('Failed to load asteroid for label:', error);
+    });
+  }
+
   private createAsteroidLabel(asteroid: Asteroid, position: THREE.Vector3): THREE.Sprite {
     const canvas = document.createElement('canvas');
     const context = canvas.getContext('2d')!;
@@ -406,7 +624,7 @@ export class AsteroidBeltBVH {
     
     context.font = '20px Arial';
     context.fillStyle = '#aaaaaa';
-    const info = `Ø ${(asteroid.diameter || 0).toFixed(1)}km`;
+    const info = `Ø ${formatDiameter(asteroid.diameterSource ? asteroid : estimateDiameter(asteroid))}`;
     context.fillText(info, canvas.width / 2, 80);
     
     const texture = new THREE.CanvasTexture(canvas);
@@ -423,18 +641,18 @@ export class AsteroidBeltBVH {
     return sprite;
   }
 
-  // Get asteroid at position (for raycasting)
-  getAsteroidAtIndex(index: number): Asteroid | undefined {
-    return this.positionMap.get(index);
+  // Get asteroid at position (for raycasting); the full record is read from IndexedDB
+  async getAsteroidAtIndex(index: number): Promise<Asteroid | undefined> {
+    return this.columns ? await getAsteroidAtIndex(this.columns, index) : undefined;
   }
 
   getPositionAtIndex(index: number): THREE.Vector3 | undefined {
-    return this.instancePositions[index];
+    if (!this.columns || index < 0 || index >= this.columns.count) return undefined;
+    return propagatedPosition(this.orbits, index, this.julianDate - this.referenceJD, this.AU, new THREE.Vector3());
   }
 
-  dispose(): void {
-    this.loadingAborted = true;
-    
+  // Remove the current batched mesh, labels and per-instance data
+  private clearInstances(): void {
     // Remove and dispose labels
     for (const [, sprite] of this.nearbyLabels) {
       this.scene.remove(sprite);
@@ -442,6 +660,8 @@ export class AsteroidBeltBVH {
       (sprite.material as THREE.SpriteMaterial).map?.dispose();
     }
     this.nearbyLabels.clear();
+    this.pendingLabels.clear();
+    this.wantedLabels.clear();
     
     // Dispose batched mesh
     if (this.batchedMesh) {
@@ -452,8 +672,26 @@ export class AsteroidBeltBVH {
       } else {
         this.batchedMesh.material.dispose();
       }
+      this.batchedMesh = null;
     }
     
+    this.orbitTexture?.dispose();
+    this.orbitTexture = null;
+    this.orbitDays = null;
+    this.columns = null;
+    this.indexById.clear();
+    this.orbits = new Float32Array(0);
+    this.margins = new Float32Array(0);
+    this.boundsPass = null;
+    this.lastLabelScan = 0;
+    this.bvhRef = null;
+    this.originalOnBeforeRender = null;
+  }
+
+  dispose(): void {
+    this.loadingAborted = true;
+    this.clearInstances();
+    
     // Dispose textures
     this.moonTexture?.dispose();
     this.moonBumpMap?.dispose();
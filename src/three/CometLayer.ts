@@ -0,0 +1,158 @@
+import * as THREE from 'three';
+import { type Comet } from '../lib/indexedDB';
+import { cometPositionAt, cometMagnitude } from '../lib/comets';
+import { getFrameJD } from '../lib/simClock';
+import { AU } from './SolarSystem';
+
+// Tails are drawn inside this heliocentric distance (AU), growing toward perihelion
+const TAIL_MAX_DISTANCE = 5;
+const TAIL_MAX_LENGTH = 1.5; // AU
+
+// Soft round sprite for the comet heads
+function createGlowTexture(): THREE.Texture {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64;
+  canvas.height = 64;
+  const context = canvas.getContext('2d')!;
+  const gradient = context.createRadialGradient(32, 32, 0, 32, 32, 32);
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+  gradient.addColorStop(0.3, 'rgba(200, 240, 255, 0.6)');
+  gradient.addColorStop(1, 'rgba(200, 240, 255, 0)');
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, 64, 64);
+  return new THREE.CanvasTexture(canvas);
+}
+
+// Comets as glowing points with anti-sunward tails. Positions are propagated
+// from each comet's perihelion passage, so elliptic, near-parabolic and
+// hyperbolic orbits are all placed correctly, and follow the simulation clock.
+export class CometLayer {
+  group = new THREE.Group();
+
+  private scene: THREE.Scene;
+  private comets: Comet[] = [];
+  private indexById = new Map<string, number>();
+  private julianDate = NaN;
+  private points: THREE.Points | null = null;
+  private tails: THREE.LineSegments | null = null;
+  private glowTexture = createGlowTexture();
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.group.name = 'CometLayer';
+    this.scene.add(this.group);
+  }
+
+  get count(): number {
+    return this.comets.length;
+  }
+
+  load(comets: Comet[], jd: number = getFrameJD()): void {
+    this.clear();
+    this.comets = comets;
+    comets.forEach((comet, index) => this.indexById.set(comet.id, index));
+    if (comets.length === 0) return;
+
+    const pointGeometry = new THREE.BufferGeometry();
+    pointGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(comets.length * 3), 3));
+    pointGeometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(comets.length * 3), 3));
+    this.points = new THREE.Points(pointGeometry, new THREE.PointsMaterial({
+      size: 6,
+      sizeAttenuation: false,
+      map: this.glowTexture,
+      vertexColors: true,
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    }));
+    this.points.name = 'CometHeads';
+    // The heads move every frame, so a bounding sphere would go stale
+    this.points.frustumCulled = false;
+    this.group.add(this.points);
+
+    // Every comet owns a segment; black ones fade to nothing under additive blending
+    const tailGeometry = new THREE.BufferGeometry();
+    tailGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(comets.length * 6), 3));
+    tailGeometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(comets.length * 6), 3));
+    this.tails = new THREE.LineSegments(tailGeometry, new THREE.LineBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    }));
+    this.tails.name = 'CometTails';
+    this.tails.frustumCulled = false;
+    this.group.add(this.tails);
+
+    this.update(jd);
+    console.log(`Loaded ${comets.length} comets`);
+  }
+
+  // Move heads and tails to a Julian Date
+  update(jd: number): void {
+    if (!this.points || !this.tails || jd === this.julianDate) return;
+    this.julianDate = jd;
+
+    const positions = this.points.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const colors = this.points.geometry.getAttribute('color') as THREE.BufferAttribute;
+    const tailPositions = this.tails.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const tailColors = this.tails.geometry.getAttribute('color') as THREE.BufferAttribute;
+    const color = new THREE.Color();
+
+    this.comets.forEach((comet, index) => {
+      const { x, y, z } = cometPositionAt(comet, jd);
+      const r = Math.sqrt(x * x + y * y + z * z);
+      // Scene y is up; the ecliptic frame has z up
+      positions.setXYZ(index, x * AU, z * AU, y * AU);
+
+      // Brighter heads for comets that would be brighter seen from 1 AU
+      const magnitude = cometMagnitude(comet, r, 1);
+      const brightness = magnitude === undefined ? 0.5 : THREE.MathUtils.clamp((22 - magnitude) / 16, 0.25, 1);
+      color.setHSL(0.52, 0.6, 0.35 + brightness * 0.4);
+      colors.setXYZ(index, color.r, color.g, color.b);
+
+      // Scene length per AU of distance along the anti-sunward direction
+      const tail = r > 0 && r < TAIL_MAX_DISTANCE ? (Math.min(TAIL_MAX_LENGTH, 1 / (r * r)) * AU) / r : 0;
+      tailPositions.setXYZ(index * 2, x * AU, z * AU, y * AU);
+      tailPositions.setXYZ(index * 2 + 1, x * (AU + tail), z * (AU + tail), y * (AU + tail));
+      if (tail > 0) tailColors.setXYZ(index * 2, color.r, color.g, color.b);
+      else tailColors.setXYZ(index * 2, 0, 0, 0);
+    });
+
+    positions.needsUpdate = true;
+    colors.needsUpdate = true;
+    tailPositions.needsUpdate = true;
+    tailColors.needsUpdate = true;
+  }
+
+  // Scene position at a Julian Date, the clock's by default
+  getCometPosition(comet: Comet, jd: number = getFrameJD()): THREE.Vector3 | undefined {
+    if (!this.indexById.has(comet.id)) return undefined;
+    const { x, y, z } = cometPositionAt(comet, jd);
+    return new THREE.Vector3(x * AU, z * AU, y * AU);
+  }
+
+  setVisible(visible: boolean): void {
+    this.group.visible = visible;
+  }
+
+  private clear(): void {
+    for (const object of [this.points, this.tails]) {
+      if (!object) continue;
+      this.group.remove(object);
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    }
+    this.points = null;
+    this.tails = null;
+    this.comets = [];
+    this.indexById.clear();
+    this.julianDate = NaN;
+  }
+
+  dispose(): void {
+    this.clear();
+    this.glowTexture.dispose();
+    this.scene.remove(this.group);
+  }
+}
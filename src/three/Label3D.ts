@@ -161,6 +161,7 @@ export class Label3DSystem {
   private labels: Map<string, Label3D> = new Map();
   private scene: THREE.Scene;
   private camera: THREE.Camera;
+  private visible = true;
   
   constructor(scene: THREE.Scene, camera: THREE.Camera) {
     this.scene = scene;
@@ -169,6 +170,8 @@ export class Label3DSystem {
   
   createLabel(data: Label3DData): Label3D {
     const label = new Label3D(data);
+    // Labels created while hidden (e.g. after an async load) start hidden
+    label.sprite.visible = this.visible;
     this.labels.set(data.name, label);
     this.scene.add(label.sprite);
     return label;
@@ -201,6 +204,7 @@ export class Label3DSystem {
   }
   
   setVisible(visible: boolean): void {
+    this.visible = visible;
     this.labels.forEach(label => {
       label.sprite.visible = visible;
     });
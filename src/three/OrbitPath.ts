@@ -0,0 +1,212 @@
+import * as THREE from 'three';
+import { type Asteroid } from '../lib/indexedDB';
+import { orbitType, perifocalToEcliptic, conicPosition } from '../lib/kepler';
+import { type ApproachOrbit, approachOrbit } from '../lib/closeApproach';
+import { AU } from './SolarSystem';
+
+const SEGMENTS = 512;
+// Open orbits are drawn out to this heliocentric distance (AU)
+const OPEN_ORBIT_EXTENT = 60;
+const MARKER_HEIGHT = 0.035; // Fraction of the viewport, constant with distance
+
+const ABOVE_COLOR = new THREE.Color(0x22d3ee);
+const BELOW_COLOR = new THREE.Color(0x1e3a8a);
+
+type MarkerKind = 'perihelion' | 'aphelion' | 'ascending' | 'descending' | 'body';
+
+const MARKERS: Record<MarkerKind, { label: string; color: string }> = {
+  perihelion: { label: 'Perihelion', color: '#fbbf24' },
+  aphelion: { label: 'Aphelion', color: '#a78bfa' },
+  ascending: { label: 'Asc. node', color: '#4ade80' },
+  descending: { label: 'Desc. node', color: '#f87171' },
+  body: { label: '', color: '#ffffff' },
+};
+
+// A dot with its caption to the right; the sprite is centered on the dot
+function createMarkerTexture({ label, color }: { label: string; color: string }): { texture: THREE.Texture; aspect: number; center: number } {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  const font = 'bold 28px Arial, sans-serif';
+  context.font = font;
+  canvas.height = 48;
+  canvas.width = label ? 48 + Math.ceil(context.measureText(label).width) + 8 : 48;
+
+  context.strokeStyle = color;
+  context.fillStyle = color;
+  context.lineWidth = 4;
+  context.beginPath();
+  context.arc(24, 24, 10, 0, Math.PI * 2);
+  if (label) {
+    context.fill();
+    context.font = font;
+    context.textBaseline = 'middle';
+    context.fillText(label, 44, 26);
+  } else {
+    context.stroke();
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.minFilter = THREE.LinearFilter;
+  return { texture, aspect: canvas.width / canvas.height, center: 24 / canvas.width };
+}
+
+// Scene position of a heliocentric ecliptic point; scene y is up
+function toScene({ x, y, z }: { x: number; y: number; z: number }): THREE.Vector3 {
+  return new THREE.Vector3(x * AU, z * AU, y * AU);
+}
+
+// The selected asteroid's osculating orbit: the conic itself, brighter above
+// the ecliptic than below it, its apsides, the line of nodes with both nodes
+// marked, and a ring on the body. The ring is propagated from the same
+// elements every frame, so it stays on the drawn path.
+export class OrbitPath {
+  group = new THREE.Group();
+
+  private scene: THREE.Scene;
+  private orbit: ApproachOrbit | null = null;
+  private markerTextures = new Map<MarkerKind, ReturnType<typeof createMarkerTexture>>();
+  private bodyMarker: THREE.Sprite | null = null;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.group.name = 'OrbitPath';
+    this.scene.add(this.group);
+  }
+
+  // Draw an asteroid's orbit; false when its elements do not describe one
+  show(asteroid: Asteroid, jd: number): boolean {
+    this.clear();
+    const orbit = approachOrbit(asteroid, jd);
+    if (!orbit) return false;
+    this.orbit = orbit;
+
+    const { q, e } = orbit;
+    const p = q * (1 + e); // Semi-latus rectum
+    const positionAt = (nu: number) => {
+      const r = p / (1 + e * Math.cos(nu));
+      return perifocalToEcliptic(r * Math.cos(nu), r * Math.sin(nu), orbit);
+    };
+    const elliptic = orbitType(e) === 'elliptic';
+
+    // Sample in eccentric anomaly on ellipses (even spacing around the far end)
+    // and in true anomaly out to the drawing extent on open orbits
+    const anomalies: number[] = [];
+    let maxNu = Math.PI;
+    if (elliptic) {
+      const factor = Math.sqrt((1 + e) / (1 - e));
+      for (let n = 0; n <= SEGMENTS; n++) {
+        const E = -Math.PI + (n / SEGMENTS) * 2 * Math.PI;
+        anomalies.push(2 * Math.atan(factor * Math.tan(E / 2)));
+      }
+      anomalies[0] = -Math.PI;
+      anomalies[SEGMENTS] = Math.PI;
+    } else {
+      maxNu = Math.acos(Math.max(-1, (p / Math.max(OPEN_ORBIT_EXTENT, q) - 1) / e));
+      for (let n = 0; n <= SEGMENTS; n++) {
+        anomalies.push(-maxNu + (n / SEGMENTS) * 2 * maxNu);
+      }
+    }
+
+    // Nodes, where the orbit crosses the ecliptic; none on an orbit in the ecliptic
+    const nodes: Array<{ kind: MarkerKind; nu: number }> = [];
+    if (Math.abs(Math.sin(orbit.i * Math.PI / 180)) > 1e-6) {
+      for (const { kind, nu } of [
+        { kind: 'ascending' as const, nu: -orbit.w * Math.PI / 180 },
+        { kind: 'descending' as const, nu: Math.PI - orbit.w * Math.PI / 180 },
+      ]) {
+        const wrapped = Math.atan2(Math.sin(nu), Math.cos(nu));
+        if (Math.abs(wrapped) < maxNu) nodes.push({ kind, nu: wrapped });
+      }
+    }
+    // Splitting the path at the nodes keeps each segment on one side of the ecliptic
+    anomalies.push(...nodes.map(node => node.nu));
+    anomalies.sort((a, b) => a - b);
+
+    const positions: number[] = [];
+    const colors: number[] = [];
+    for (let n = 1; n < anomalies.length; n++) {
+      const start = toScene(positionAt(anomalies[n - 1]));
+      const end = toScene(positionAt(anomalies[n]));
+      const below = positionAt((anomalies[n - 1] + anomalies[n]) / 2).z < 0;
+      const color = below ? BELOW_COLOR : ABOVE_COLOR;
+      positions.push(start.x, start.y, start.z, end.x, end.y, end.z);
+      colors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+    }
+    const pathGeometry = new THREE.BufferGeometry();
+    pathGeometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    pathGeometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    const path = new THREE.LineSegments(pathGeometry, new THREE.LineBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      opacity: 0.9,
+      depthWrite: false,
+    }));
+    path.name = 'OrbitPathLine';
+    this.group.add(path);
+
+    this.addMarker('perihelion', toScene(positionAt(0)));
+    if (elliptic) this.addMarker('aphelion', toScene(positionAt(Math.PI)));
+
+    // The line of nodes runs through the Sun, drawn across to whichever nodes exist
+    const nodePoints = nodes.map(node => toScene(positionAt(node.nu)));
+    nodes.forEach((node, index) => this.addMarker(node.kind, nodePoints[index]));
+    if (nodePoints.length > 0) {
+      const ends = nodePoints.length === 2 ? nodePoints : [nodePoints[0], new THREE.Vector3()];
+      const lineOfNodes = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints(ends),
+        new THREE.LineDashedMaterial({ color: 0x94a3b8, dashSize: 2, gapSize: 2, transparent: true, opacity: 0.7 })
+      );
+      lineOfNodes.computeLineDistances();
+      lineOfNodes.name = 'LineOfNodes';
+      this.group.add(lineOfNodes);
+    }
+
+    this.bodyMarker = this.addMarker('body', new THREE.Vector3());
+    this.update(jd);
+    return true;
+  }
+
+  // Move the body ring to its propagated position
+  update(jd: number): void {
+    if (!this.orbit || !this.bodyMarker) return;
+    this.bodyMarker.position.copy(toScene(conicPosition(this.orbit, jd - this.orbit.tp)));
+  }
+
+  private addMarker(kind: MarkerKind, position: THREE.Vector3): THREE.Sprite {
+    let marker = this.markerTextures.get(kind);
+    if (!marker) {
+      marker = createMarkerTexture(MARKERS[kind]);
+      this.markerTextures.set(kind, marker);
+    }
+    const sprite = new THREE.Sprite(new THREE.SpriteMaterial({
+      map: marker.texture,
+      transparent: true,
+      depthTest: false,
+      depthWrite: false,
+      sizeAttenuation: false,
+    }));
+    sprite.center.set(marker.center, 0.5);
+    sprite.scale.set(MARKER_HEIGHT * marker.aspect, MARKER_HEIGHT, 1);
+    sprite.position.copy(position);
+    sprite.name = `OrbitMarker_${kind}`;
+    this.group.add(sprite);
+    return sprite;
+  }
+
+  clear(): void {
+    for (const object of [...this.group.children]) {
+      this.group.remove(object);
+      if (object instanceof THREE.Line) object.geometry.dispose();
+      ((object as THREE.Line | THREE.Sprite).material as THREE.Material).dispose();
+    }
+    this.orbit = null;
+    this.bodyMarker = null;
+  }
+
+  dispose(): void {
+    this.clear();
+    this.markerTextures.forEach(({ texture }) => texture.dispose());
+    this.markerTextures.clear();
+    this.scene.remove(this.group);
+  }
+}
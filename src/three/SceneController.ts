@@ -2,13 +2,17 @@ import * as THREE from 'three';
 import Stats from 'three/addons/libs/stats.module.js';
 import { SolarSystem, AU } from './SolarSystem';
 import { AsteroidBeltBVH } from './AsteroidBeltBVH';
+import { CometLayer } from './CometLayer';
+import { OrbitPath } from './OrbitPath';
 import { createDecorativeBelt } from './AsteroidBeltOptimized';
 import { BlackHole } from './BlackHole';
 import { Label3DSystem } from './Label3D';
 import { FlyControls } from './FlyControls';
 import { SolarFlares } from './SolarFlares';
 import { PostProcessing, createSunLensFlare } from './PostProcessing';
-import { type Asteroid } from '../lib/indexedDB';
+import { type Asteroid, type Comet } from '../lib/indexedDB';
+import { type AsteroidColumns } from '../lib/columnarCache';
+import { getFrameJD, tickClock } from '../lib/simClock';
 
 export interface SceneConfig {
   container: HTMLElement;
@@ -29,6 +33,8 @@ export class SceneController {
   
   private solarSystem: SolarSystem;
   private asteroidBelt: AsteroidBeltBVH;
+  private cometLayer: CometLayer;
+  private orbitPath: OrbitPath;
   private blackHole: BlackHole;
   private labelSystem: Label3DSystem;
   private solarFlares: SolarFlares;
@@ -124,6 +130,10 @@ export class SceneController {
       this.onAsteroidLoadProgress?.(loaded, total);
     };
     
+    // Comets get their own layer; they are not part of the batched asteroid mesh
+    this.cometLayer = new CometLayer(this.scene);
+    this.orbitPath = new OrbitPath(this.scene);
+    
     // Create decorative belts
     this.createDecorativeBelts();
     
@@ -222,16 +232,19 @@ export class SceneController {
       { planet: 'Saturn', moon: 'Titan' },
       { planet: 'Saturn', moon: 'Enceladus' },
     ];
-    moons.forEach(({ planet, moon }) => {
-      const moonObj = this.solarSystem.getObject(`${planet}/${moon}`);
-      if (moonObj) {
-        this.labelSystem.createLabel({
-          name: moon,
-          position: moonObj.mesh.position.clone().add(new THREE.Vector3(0, 2, 0)),
-          type: 'moon',
-          color: 0xaaaaaa,
-        });
-      }
+    // Moons come from a catalog file and appear once it has loaded
+    this.solarSystem.moonsLoaded.then(() => {
+      moons.forEach(({ planet, moon }) => {
+        const position = this.solarSystem.getPosition(`${planet}/${moon}`);
+        if (position) {
+          this.labelSystem.createLabel({
+            name: moon,
+            position: position.add(new THREE.Vector3(0, 2, 0)),
+            type: 'moon',
+            color: 0xaaaaaa,
+          });
+        }
+      });
     });
     
     // Region labels
@@ -278,11 +291,17 @@ export class SceneController {
     this.postProcessing.setSize(width, height);
   };
 
-  async loadAsteroids(asteroids: Asteroid[]): Promise<void> {
-    await this.asteroidBelt.loadAsteroids(asteroids);
+  async loadAsteroids(columns: AsteroidColumns): Promise<void> {
+    await this.asteroidBelt.loadAsteroids(columns, getFrameJD());
+  }
+
+  loadComets(comets: Comet[]): void {
+    // Placed for the simulated date so they line up with the planets
+    this.cometLayer.load(comets, getFrameJD());
   }
 
   flyTo(name: string): void {
+    this.orbitPath.clear();
     let targetPosition: THREE.Vector3 | null = null;
     
     if (name === 'BlackHole') {
@@ -371,10 +390,25 @@ export class SceneController {
     // Release any existing tracking
     this.stopTracking();
     
+    // The clock may have just jumped (e.g. to a close approach) since the last frame
+    this.asteroidBelt.setJulianDate(getFrameJD());
     const position = this.asteroidBelt.getAsteroidPosition(asteroid);
+    this.orbitPath.show(asteroid, getFrameJD());
+    this.flyToSmallBody(asteroid.name || asteroid.pdes || 'Unknown Asteroid', position);
+  }
+
+  flyToComet(comet: Comet): void {
+    this.stopTracking();
+    this.orbitPath.clear();
     
-    // Create a temporary 3D label for the asteroid
-    const asteroidName = asteroid.name || asteroid.pdes || 'Unknown Asteroid';
+    const position = this.cometLayer.getCometPosition(comet);
+    if (!position) return;
+    this.flyToSmallBody(comet.name || comet.pdes || 'Unknown Comet', position);
+  }
+
+  // Label a small body and fly the camera up to it
+  private flyToSmallBody(asteroidName: string, position: THREE.Vector3): void {
+    // Create a temporary 3D label for the body
     this.labelSystem.createLabel({
       name: asteroidName,
       position: position.clone().add(new THREE.Vector3(0, 3, 0)),
@@ -409,20 +443,11 @@ export class SceneController {
     requestAnimationFrame(animateFly);
   }
 
-  setTimeScale(scale: number): void {
-    this.solarSystem.setTimeScale(scale);
-  }
-
   // Get current camera movement speed for HUD
   getCurrentSpeed(): number {
     return this.controls.getCurrentSpeed();
   }
 
-  // Get simulated time elapsed in seconds
-  getSimulatedTime(): number {
-    return this.solarSystem.getSimulatedTime();
-  }
-
   // Get visible object count (from frustum culling)
   getVisibleAsteroids(): number {
     // Return combined count: asteroids + other visible objects
@@ -440,6 +465,7 @@ export class SceneController {
     if (this.kuiperBelt) {
       this.kuiperBelt.visible = visible;
     }
+    this.cometLayer.setVisible(visible);
   }
 
   // Toggle post-processing (bloom, lens flare)
@@ -539,6 +565,9 @@ export class SceneController {
       // Skip asteroid belt LOD meshes (handled by AsteroidBeltOptimized)
       if (object.name.startsWith('AsteroidBelt')) return;
       
+      // Comet heads and tails span the whole system; three.js culls them by bounds
+      if (object.name.startsWith('Comet')) return;
+      
       // Skip starfield (always visible - it's the background)
       if (object.name === 'Starfield') return;
       
@@ -616,7 +645,12 @@ export class SceneController {
       this.controls.update(delta);
     }
     
+    // The one place the simulation clock advances
+    tickClock(delta);
     this.solarSystem.update(delta);
+    this.asteroidBelt.setJulianDate(getFrameJD());
+    this.cometLayer.update(getFrameJD());
+    this.orbitPath.update(getFrameJD());
     this.blackHole.update(delta);
     this.solarFlares.update(delta);
     
@@ -752,6 +786,8 @@ export class SceneController {
     this.controls.disconnect();
     this.labelSystem.dispose();
     this.asteroidBelt.dispose();
+    this.cometLayer.dispose();
+    this.orbitPath.dispose();
     this.blackHole.dispose();
     this.solarFlares.dispose();
     this.postProcessing.dispose();
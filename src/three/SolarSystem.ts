@@ -8,18 +8,35 @@ import {
   createEnhancedCoronaMaterial,
   createLavaMaterial,
 } from './shaders';
+import { EPHEMERIDES, J2000_JD, planetPosition, orbitPoints, equatorialDirection } from '../lib/ephemeris';
+import { type MoonElements, loadMoonCatalog, moonFrame, moonPosition, moonOrbitPoints, precessionInterval } from '../lib/moons';
+import { getFrameJD } from '../lib/simClock';
 
 // Astronomical Unit in our scene scale (1 AU = 100 units)
 export const AU = 100;
 
-// Planet data with real relative sizes and distances
+const PLANET_SCALE = 3; // Scene units per planet radius unit (Earth radii)
+const EARTH_RADIUS_KM = 6371;
+const MOON_ORBIT_SEGMENTS = 128;
+// Moon orbits have to fit between the planets, so distances from a planet's
+// center are compressed logarithmically in units of its radius: the surface
+// stays put, each e-fold in distance adds this many radii. Ring radii use the
+// same mapping so inner moons stay outside the rings they orbit beyond.
+const MOON_DISTANCE_COMPRESSION = 1.2;
+const MIN_MOON_RADIUS = 0.1; // Scene units, so small moons stay visible
+
+// Scene distance for a planetocentric distance, both in planet radii
+function compressedDistance(radii: number): number {
+  return 1 + MOON_DISTANCE_COMPRESSION * Math.log(Math.max(radii, 1));
+}
+
+// Planet data with real relative sizes; orbits come from EPHEMERIDES by name
 export interface PlanetData {
   name: string;
   radius: number;
-  distance: number; // from sun in AU
-  orbitalPeriod: number; // in Earth years
   rotationPeriod: number; // in Earth days
-  axialTilt: number; // in degrees
+  axialTilt: number; // in degrees, about the scene z axis when no pole is known
+  pole?: { ra: number; dec: number }; // Rotation pole (ICRF, deg); negative periods are retrograde about it
   color: number;
   textureUrl?: string;
   bumpUrl?: string;
@@ -31,51 +48,37 @@ export interface PlanetData {
   ringInnerRadius?: number;
   ringOuterRadius?: number;
   ringColor?: number;
-  moons?: MoonData[];
   atmosphere?: {
     color: number;
     opacity: number;
   };
 }
 
-export interface MoonData {
-  name: string;
-  radius: number;
-  distance: number;
-  orbitalPeriod: number;
-  color: number;
-  textureUrl?: string;
-  bumpUrl?: string;
-}
-
 // Solar system data (scaled for visibility)
 export const PLANETS: PlanetData[] = [
   {
     name: 'Mercury',
     radius: 0.38,
-    distance: 0.5,  // Increased from 0.39 to prevent sun clipping
-    orbitalPeriod: 0.24,
     rotationPeriod: 58.6,
     axialTilt: 0.03,
+    pole: { ra: 281.0103, dec: 61.4155 },
     color: 0x8c8c8c,
   },
   {
     name: 'Venus',
     radius: 0.95,
-    distance: 0.72,
-    orbitalPeriod: 0.62,
     rotationPeriod: -243,
     axialTilt: 177.4,
+    pole: { ra: 272.76, dec: 67.16 },
     color: 0xe6c27a,
     atmosphere: { color: 0xffd699, opacity: 0.3 },
   },
   {
     name: 'Earth',
     radius: 1,
-    distance: 1,
-    orbitalPeriod: 1,
     rotationPeriod: 1,
     axialTilt: 23.4,
+    pole: { ra: 0, dec: 90 },
     color: 0x6b93d6,
     textureUrl: '/textures/00_earthmap1k.jpg',
     bumpUrl: '/textures/01_earthbump1k.jpg',
@@ -84,115 +87,70 @@ export const PLANETS: PlanetData[] = [
     cloudsUrl: '/textures/04_earthcloudmap.jpg',
     cloudsAlphaUrl: '/textures/05_earthcloudmaptrans.jpg',
     atmosphere: { color: 0x88ccff, opacity: 0.2 },
-    moons: [
-      {
-        name: 'Moon',
-        radius: 0.27,
-        distance: 0.025,
-        orbitalPeriod: 0.075,
-        color: 0xaaaaaa,
-        textureUrl: '/textures/moonmap1k.jpg',
-        bumpUrl: '/textures/moonbump1k.jpg',
-      },
-    ],
   },
   {
     name: 'Mars',
     radius: 0.53,
-    distance: 1.52,
-    orbitalPeriod: 1.88,
     rotationPeriod: 1.03,
     axialTilt: 25.2,
+    pole: { ra: 317.269, dec: 54.432 },
     color: 0xc1440e,
     textureUrl: '/textures/moonmap1k.jpg',  // Use moon texture as fallback
     bumpUrl: '/textures/moonbump1k.jpg',
-    moons: [
-      { name: 'Phobos', radius: 0.05, distance: 0.006, orbitalPeriod: 0.03, color: 0x8b7355 },  // Slower rotation
-      { name: 'Deimos', radius: 0.03, distance: 0.015, orbitalPeriod: 0.05, color: 0x8b7355 },  // Slower rotation
-    ],
   },
   {
     name: 'Jupiter',
     radius: 11.2,
-    distance: 5.2,
-    orbitalPeriod: 11.86,
     rotationPeriod: 0.41,
     axialTilt: 3.1,
+    pole: { ra: 268.057, dec: 64.495 },
     color: 0xd8ca9d,
-    moons: [
-      { name: 'Io', radius: 0.29, distance: 0.028, orbitalPeriod: 0.005, color: 0xffff66 },
-      { name: 'Europa', radius: 0.25, distance: 0.045, orbitalPeriod: 0.01, color: 0xc9b896 },
-      { name: 'Ganymede', radius: 0.41, distance: 0.072, orbitalPeriod: 0.02, color: 0x8b7355 },
-      { name: 'Callisto', radius: 0.38, distance: 0.126, orbitalPeriod: 0.046, color: 0x555555 },
-    ],
   },
   {
     name: 'Saturn',
     radius: 9.45,
-    distance: 9.58,
-    orbitalPeriod: 29.46,
     rotationPeriod: 0.45,
     axialTilt: 26.7,
+    pole: { ra: 40.589, dec: 83.537 },
     color: 0xead6b8,
     hasRings: true,
     ringInnerRadius: 12,
     ringOuterRadius: 22,
     ringColor: 0xd4b896,
-    moons: [
-      { name: 'Titan', radius: 0.4, distance: 0.082, orbitalPeriod: 0.044, color: 0xd4a574 },
-      { name: 'Enceladus', radius: 0.04, distance: 0.016, orbitalPeriod: 0.004, color: 0xffffff },
-      { name: 'Mimas', radius: 0.03, distance: 0.012, orbitalPeriod: 0.003, color: 0xcccccc },
-    ],
   },
   {
     name: 'Uranus',
     radius: 4,
-    distance: 19.22,
-    orbitalPeriod: 84.01,
     rotationPeriod: -0.72,
     axialTilt: 97.8,
+    pole: { ra: 257.311, dec: -15.175 },
     color: 0xd1e7e7,
     hasRings: true,
     ringInnerRadius: 5,
     ringOuterRadius: 8,
     ringColor: 0x445566,
-    moons: [
-      { name: 'Miranda', radius: 0.04, distance: 0.009, orbitalPeriod: 0.004, color: 0x888888 },
-      { name: 'Ariel', radius: 0.09, distance: 0.013, orbitalPeriod: 0.007, color: 0xaaaaaa },
-      { name: 'Titania', radius: 0.12, distance: 0.029, orbitalPeriod: 0.024, color: 0x999999 },
-    ],
   },
   {
     name: 'Neptune',
     radius: 3.88,
-    distance: 30.05,
-    orbitalPeriod: 164.8,
     rotationPeriod: 0.67,
     axialTilt: 28.3,
+    pole: { ra: 299.36, dec: 43.46 },
     color: 0x5b5ddf,
-    moons: [
-      { name: 'Triton', radius: 0.21, distance: 0.024, orbitalPeriod: -0.016, color: 0xd4c4b0 },
-    ],
   },
   // Dwarf planets
   {
     name: 'Pluto',
     radius: 0.18,
-    distance: 39.48,  // Average distance in AU
-    orbitalPeriod: 248,
     rotationPeriod: -6.39,  // Retrograde rotation
     axialTilt: 122.5,
+    pole: { ra: 312.993, dec: 6.163 },
     color: 0xd4c4b0,
     textureUrl: '/textures/moonmap1k.jpg',  // Use moon texture as fallback
-    moons: [
-      { name: 'Charon', radius: 0.09, distance: 0.0012, orbitalPeriod: 0.017, color: 0x888888 },
-    ],
   },
   {
     name: 'Eris',
     radius: 0.18,
-    distance: 67.78,
-    orbitalPeriod: 558,
     rotationPeriod: 1.08,
     axialTilt: 78,
     color: 0xeeeeee,
@@ -200,8 +158,6 @@ export const PLANETS: PlanetData[] = [
   {
     name: 'Makemake',
     radius: 0.11,
-    distance: 45.79,
-    orbitalPeriod: 310,
     rotationPeriod: 0.94,
     axialTilt: 0,
     color: 0xd4a574,
@@ -209,8 +165,6 @@ export const PLANETS: PlanetData[] = [
   {
     name: 'Haumea',
     radius: 0.12,
-    distance: 43.13,
-    orbitalPeriod: 284,
     rotationPeriod: 0.16,  // Very fast rotator
     axialTilt: 126,
     color: 0xffffff,
@@ -241,7 +195,7 @@ export interface CelestialObject {
   name: string;
   mesh: THREE.Object3D;
   orbitGroup: THREE.Group;
-  updateFn?: (time: number, delta: number) => void;
+  updateFn?: (jd: number, delta: number) => void; // jd from the simulation clock
 }
 
 export class SolarSystem {
@@ -251,9 +205,9 @@ export class SolarSystem {
   sunLight!: THREE.PointLight;
   coronaMaterials: THREE.ShaderMaterial[] = [];
   loader: THREE.TextureLoader;
-  
-  private time = 0;
-  private timeScale = 0.01; // Default simulation speed - slow but visible motion
+  // Settles once the moon catalog has been read and its moons added (or failed to load)
+  moonsLoaded: Promise<void>;
+  private planetGroups: Map<string, { group: THREE.Group; data: PlanetData }> = new Map();
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
@@ -261,6 +215,9 @@ export class SolarSystem {
     
     this.createSun();
     this.createPlanets();
+    this.moonsLoaded = loadMoonCatalog()
+      .then(moons => this.createMoons(moons))
+      .catch(error => console.error('Failed to load moon catalog:', error));
     this.createStarfield();
   }
 
@@ -394,13 +351,29 @@ export class SolarSystem {
     
     const planetGroup = new THREE.Group();
     planetGroup.name = data.name;
+    this.planetGroups.set(data.name, { group: planetGroup, data });
     
     // Planet radius (scaled for visibility, Earth = 1)
-    const radius = data.radius * 3; // Increased scale factor for visibility
-    const distance = data.distance * AU;
+    const radius = data.radius * PLANET_SCALE; // Increased scale factor for visibility
+    const body = EPHEMERIDES[data.name];
+    
+    // Everything that turns with the planet hangs off its equator: local y is
+    // the rotation pole. Scene y is up; the ecliptic frame has z up.
+    const equator = new THREE.Group();
+    if (data.pole) {
+      const pole = equatorialDirection(data.pole.ra, data.pole.dec);
+      equator.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), new THREE.Vector3(pole.x, pole.z, pole.y));
+    } else {
+      equator.rotation.z = THREE.MathUtils.degToRad(data.axialTilt);
+    }
+    planetGroup.add(equator);
     
-    // Position planet
-    planetGroup.position.x = distance;
+    // Scene y is up; the ecliptic frame has z up
+    const placePlanet = (jd: number) => {
+      const { x, y, z } = planetPosition(body, jd);
+      planetGroup.position.set(x * AU, z * AU, y * AU);
+    };
+    placePlanet(getFrameJD());
     
     // Planet geometry (higher detail for Earth like old project)
     const segments = data.name === 'Earth' ? 128 : 64;
@@ -436,8 +409,7 @@ export class SolarSystem {
       material = new THREE.MeshPhongMaterial(materialOptions);
       
       planetMesh = new THREE.Mesh(geometry, material);
-      planetMesh.rotation.z = THREE.MathUtils.degToRad(data.axialTilt);
-      planetGroup.add(planetMesh);
+      equator.add(planetMesh);
       
       // City lights layer (like old project - additive blending shows on dark side naturally)
       if (data.lightsUrl) {
@@ -447,8 +419,7 @@ export class SolarSystem {
           blending: THREE.AdditiveBlending,
         });
         const lightsMesh = new THREE.Mesh(geometry, lightsMat);
-        lightsMesh.rotation.z = THREE.MathUtils.degToRad(data.axialTilt);
-        planetGroup.add(lightsMesh);
+        equator.add(lightsMesh);
         
         (planetGroup as THREE.Object3D & { lightsMesh?: THREE.Mesh }).lightsMesh = lightsMesh;
       }
@@ -461,8 +432,7 @@ export class SolarSystem {
       });
       
       planetMesh = new THREE.Mesh(geometry, material);
-      planetMesh.rotation.z = THREE.MathUtils.degToRad(data.axialTilt);
-      planetGroup.add(planetMesh);
+      equator.add(planetMesh);
     }
     
     // Clouds layer (for Earth)
@@ -482,8 +452,7 @@ export class SolarSystem {
       const cloudsMat = new THREE.MeshStandardMaterial(cloudsMaterialOptions);
       const cloudsMesh = new THREE.Mesh(geometry, cloudsMat);
       cloudsMesh.scale.setScalar(1.003);
-      cloudsMesh.rotation.z = THREE.MathUtils.degToRad(data.axialTilt);
-      planetGroup.add(cloudsMesh);
+      equator.add(cloudsMesh);
       
       // Store clouds mesh for rotation sync
       (planetGroup as THREE.Object3D & { cloudsMesh?: THREE.Mesh }).cloudsMesh = cloudsMesh;
@@ -498,14 +467,14 @@ export class SolarSystem {
       });
       const atmosMesh = new THREE.Mesh(geometry, atmosMaterial);
       atmosMesh.scale.setScalar(1.01);
-      planetGroup.add(atmosMesh);
+      equator.add(atmosMesh);
     }
     
-    // Rings - scale to match planet (radius is in same units as planet radius)
+    // Rings, with radii compressed like the moon orbits around them
     if (data.hasRings && data.ringInnerRadius && data.ringOuterRadius) {
       const ringGeometry = new THREE.RingGeometry(
-        data.ringInnerRadius * 3,  // Match planet scale factor
-        data.ringOuterRadius * 3,  // Match planet scale factor
+        radius * compressedDistance(data.ringInnerRadius / data.radius),
+        radius * compressedDistance(data.ringOuterRadius / data.radius),
         128
       );
       
@@ -516,70 +485,12 @@ export class SolarSystem {
       
       const ring = new THREE.Mesh(ringGeometry, ringMaterial);
       ring.rotation.x = Math.PI / 2;
-      ring.rotation.z = THREE.MathUtils.degToRad(data.axialTilt);
-      planetGroup.add(ring);
-    }
-    
-    // Moons
-    if (data.moons) {
-      data.moons.forEach(moonData => {
-        const moonOrbit = new THREE.Group();
-        const moonRadius = moonData.radius * 3; // Match planet scale
-        // Moon distance needs to be relative to planet size, not in AU
-        // The distance values in data are in AU but we need them scaled for visibility
-        // Use planet radius as base and add moon distance scaled appropriately
-        const planetRadius = data.radius * 3;
-        const moonDistance = planetRadius + (moonData.distance * 500); // Distance from planet surface
-        
-        const moonGeometry = new THREE.SphereGeometry(moonRadius, 32, 32);
-        
-        let moonMaterial: THREE.Material;
-        if (moonData.textureUrl) {
-          const moonTexture = this.loader.load(moonData.textureUrl);
-          moonTexture.colorSpace = THREE.SRGBColorSpace;
-          
-          const moonMatOptions: THREE.MeshStandardMaterialParameters = {
-            map: moonTexture,
-            roughness: 0.9,
-          };
-          
-          if (moonData.bumpUrl) {
-            moonMatOptions.bumpMap = this.loader.load(moonData.bumpUrl);
-            moonMatOptions.bumpScale = 0.02;
-          }
-          
-          moonMaterial = new THREE.MeshStandardMaterial(moonMatOptions);
-        } else {
-          moonMaterial = new THREE.MeshStandardMaterial({
-            color: moonData.color,
-            roughness: 0.9,
-          });
-        }
-        
-        const moonMesh = new THREE.Mesh(moonGeometry, moonMaterial);
-        moonMesh.position.x = moonDistance;
-        
-        moonOrbit.add(moonMesh);
-        planetGroup.add(moonOrbit);
-        
-        // Store moon reference
-        this.objects.set(`${data.name}/${moonData.name}`, {
-          name: moonData.name,
-          mesh: moonMesh,
-          orbitGroup: moonOrbit,
-          updateFn: (time) => {
-            const moonAngle = (time / moonData.orbitalPeriod) * Math.PI * 2;
-            moonOrbit.rotation.y = moonAngle;
-          },
-        });
-      });
+      equator.add(ring);
     }
     
-    // Create orbit path
-    const orbitCurve = new THREE.EllipseCurve(0, 0, distance, distance, 0, Math.PI * 2, false, 0);
-    const orbitPoints = orbitCurve.getPoints(128);
+    // Orbit path at the start date; precession over the simulated span is negligible
     const orbitGeometry = new THREE.BufferGeometry().setFromPoints(
-      orbitPoints.map(p => new THREE.Vector3(p.x, 0, p.y))
+      orbitPoints(body, getFrameJD(), 256).map(p => new THREE.Vector3(p.x * AU, p.z * AU, p.y * AU))
     );
     const orbitMaterial = new THREE.LineBasicMaterial({
       color: 0x444466,
@@ -596,15 +507,13 @@ export class SolarSystem {
       name: data.name,
       mesh: planetMesh,
       orbitGroup: orbitGroup,
-      updateFn: (time) => {
-        // Orbital motion
-        const angle = (time / data.orbitalPeriod) * Math.PI * 2;
-        planetGroup.position.x = Math.cos(angle) * distance;
-        planetGroup.position.z = Math.sin(angle) * distance;
+      updateFn: (jd) => {
+        const days = jd - J2000_JD;
+        placePlanet(jd);
         
         // Rotation
         if (data.rotationPeriod !== 0) {
-          const rotationAngle = (time / Math.abs(data.rotationPeriod)) * Math.PI * 2 * Math.sign(data.rotationPeriod);
+          const rotationAngle = (days / Math.abs(data.rotationPeriod)) * Math.PI * 2 * Math.sign(data.rotationPeriod);
           planetMesh.rotation.y = rotationAngle;
           
           // Rotate lights mesh in sync with planet
@@ -624,6 +533,101 @@ export class SolarSystem {
     return orbitGroup;
   }
 
+  // Moons from the catalog, placed from their own elements around each planet
+  private createMoons(moons: MoonElements[]): void {
+    moons.forEach(moon => {
+      const planet = this.planetGroups.get(moon.planet);
+      if (!planet) {
+        console.warn(`Moon ${moon.name} orbits unknown body ${moon.planet}`);
+        return;
+      }
+      const frame = moonFrame(moon);
+      const planetRadiusKm = planet.data.radius * EARTH_RADIUS_KM;
+      const planetRadius = planet.data.radius * PLANET_SCALE;
+      
+      // Planetocentric ecliptic km to a compressed offset from the planet
+      const toScene = ({ x, y, z }: { x: number; y: number; z: number }, target: THREE.Vector3) => {
+        const r = Math.sqrt(x * x + y * y + z * z);
+        const scale = r > 0 ? (planetRadius * compressedDistance(r / planetRadiusKm)) / r : 0;
+        return target.set(x * scale, z * scale, y * scale);
+      };
+      
+      const moonGroup = new THREE.Group();
+      moonGroup.name = `${moon.name}Orbit`;
+      
+      const moonRadius = Math.max(MIN_MOON_RADIUS, (moon.radius / EARTH_RADIUS_KM) * PLANET_SCALE);
+      const moonGeometry = new THREE.SphereGeometry(moonRadius, 32, 32);
+      
+      let moonMaterial: THREE.Material;
+      if (moon.textureUrl) {
+        const moonTexture = this.loader.load(moon.textureUrl);
+        moonTexture.colorSpace = THREE.SRGBColorSpace;
+        
+        const moonMatOptions: THREE.MeshStandardMaterialParameters = {
+          map: moonTexture,
+          roughness: 0.9,
+        };
+        
+        if (moon.bumpUrl) {
+          moonMatOptions.bumpMap = this.loader.load(moon.bumpUrl);
+          moonMatOptions.bumpScale = 0.02;
+        }
+        
+        moonMaterial = new THREE.MeshStandardMaterial(moonMatOptions);
+      } else {
+        moonMaterial = new THREE.MeshStandardMaterial({
+          color: moon.color,
+          roughness: 0.9,
+        });
+      }
+      
+      const moonMesh = new THREE.Mesh(moonGeometry, moonMaterial);
+      moonGroup.add(moonMesh);
+      
+      // Orbit path, redrawn as apsidal and nodal precession turn it
+      const orbitPositions = new THREE.BufferAttribute(new Float32Array((MOON_ORBIT_SEGMENTS + 1) * 3), 3);
+      const orbitGeometry = new THREE.BufferGeometry();
+      orbitGeometry.setAttribute('position', orbitPositions);
+      const point = new THREE.Vector3();
+      const drawOrbit = (jd: number) => {
+        moonOrbitPoints(moon, frame, jd, MOON_ORBIT_SEGMENTS).forEach((p, index) => {
+          toScene(p, point).toArray(orbitPositions.array, index * 3);
+        });
+        orbitPositions.needsUpdate = true;
+        orbitGeometry.computeBoundingSphere();
+      };
+      const redrawInterval = precessionInterval(moon, 0.5);
+      let orbitJD = getFrameJD();
+      drawOrbit(orbitJD);
+      
+      const orbitLine = new THREE.Line(orbitGeometry, new THREE.LineBasicMaterial({
+        color: 0x444466,
+        transparent: true,
+        opacity: 0.3,
+      }));
+      moonGroup.add(orbitLine);
+      planet.group.add(moonGroup);
+      
+      const place = (jd: number) => {
+        toScene(moonPosition(moon, frame, jd), moonMesh.position);
+      };
+      place(orbitJD);
+      
+      this.objects.set(`${moon.planet}/${moon.name}`, {
+        name: moon.name,
+        mesh: moonMesh,
+        orbitGroup: moonGroup,
+        updateFn: (jd) => {
+          place(jd);
+          if (Math.abs(jd - orbitJD) > redrawInterval) {
+            orbitJD = jd;
+            drawOrbit(jd);
+          }
+        },
+      });
+    });
+  }
+
   private createStarfield(): void {
     const starCount = 10000;
     const positions = new Float32Array(starCount * 3);
@@ -682,7 +686,7 @@ export class SolarSystem {
   }
 
   update(delta: number): void {
-    this.time += delta * this.timeScale;
+    const jd = getFrameJD();
     
     // Update corona shader time - use real time for sun animation, not simulation time
     // This keeps sun effects animating even when simulation is paused
@@ -695,22 +699,10 @@ export class SolarSystem {
     
     // Update all objects
     this.objects.forEach(obj => {
-      obj.updateFn?.(this.time, delta);
+      obj.updateFn?.(jd, delta);
     });
   }
 
-  setTimeScale(scale: number): void {
-    this.timeScale = scale;
-  }
-
-  getTimeScale(): number {
-    return this.timeScale;
-  }
-
-  getSimulatedTime(): number {
-    return this.time;
-  }
-
   getPosition(name: string): THREE.Vector3 | null {
     const obj = this.objects.get(name);
     if (!obj) return null;
@@ -766,3 +766,55 @@ export function createLavaMaterial(
   });
 }
 
+
+// Kepler propagation for batched asteroids. Each instance has two texels in
+// orbitTexture: (a·P, e) and (b·Q, M at the reference date), where P and Q are
+// the perihelion and 90° directions in scene axes. The instance matrix only
+// supplies rotation and scale; its translation is replaced by the position at
+// orbitDays after the reference date. e < 0 marks a fixed position in the
+// first texel, used for orbits that are not ellipses.
+export function applyOrbitPropagation(
+  material: THREE.Material,
+  orbitTexture: THREE.DataTexture,
+  au: number,
+  gaussK: number
+): { value: number } {
+  const orbitDays = { value: 0 };
+
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.orbitTexture = { value: orbitTexture };
+    shader.uniforms.orbitDays = orbitDays;
+
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <batching_pars_vertex>', `#include <batching_pars_vertex>
+      uniform highp sampler2D orbitTexture;
+      uniform float orbitDays;
+
+      vec3 orbitPosition( const in float i ) {
+        int size = textureSize( orbitTexture, 0 ).x;
+        int j = int( i ) * 2;
+        int x = j % size;
+        int y = j / size;
+        vec4 p = texelFetch( orbitTexture, ivec2( x, y ), 0 );
+        vec4 q = texelFetch( orbitTexture, ivec2( x + 1, y ), 0 );
+        float e = p.w;
+        if ( e < 0.0 ) return p.xyz;
+
+        float a = length( p.xyz ) / ${au.toFixed(1)};
+        float n = ${gaussK} / ( a * sqrt( a ) );
+        float M = mod( q.w + n * orbitDays + PI, 2.0 * PI ) - PI;
+        // Newton from PI stays stable for high eccentricities
+        float E = e < 0.8 ? M : ( M < 0.0 ? -PI : PI );
+        for ( int k = 0; k < 8; k++ ) {
+          E -= ( E - e * sin( E ) - M ) / ( 1.0 - e * cos( E ) );
+        }
+        return ( cos( E ) - e ) * p.xyz + sin( E ) * q.xyz;
+      }`)
+      .replace('#include <batching_vertex>', `#include <batching_vertex>
+      #ifdef USE_BATCHING
+        batchingMatrix[ 3 ].xyz = orbitPosition( getIndirectIndex( gl_DrawID ) );
+      #endif`);
+  };
+
+  return orbitDays;
+}
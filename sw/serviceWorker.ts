@@ -0,0 +1,100 @@
+/// <reference lib="webworker" />
+
+// Offline support. Built by the service-worker plugin in vite.config.ts, which
+// fills in the two constants below; in development no worker is registered.
+//
+//   app shell + textures   precached on install, served cache-first
+//   navigations            network-first, falling back to the cached shell
+//   /data/*                network-first with revalidation against the cached
+//                          copy's ETag, so offline starts can still ingest
+
+declare const self: ServiceWorkerGlobalScope;
+declare const __PRECACHE_URLS__: string[];
+declare const __CACHE_VERSION__: string;
+
+const SHELL_CACHE = `shell-${__CACHE_VERSION__}`;
+const DATA_CACHE = 'data';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(__PRECACHE_URLS__))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drop shells from earlier builds; the dataset cache outlives them
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key !== SHELL_CACHE && key !== DATA_CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request: Request): Promise<Response> {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirstNavigation(request: Request): Promise<Response> {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match('/index.html');
+    if (shell) return shell;
+    throw error;
+  }
+}
+
+// Ask the server whether the cached dataset is still current. A 304 keeps the
+// cached copy; a new version streams to the page and into the cache at once.
+async function revalidateDataset(event: FetchEvent): Promise<Response> {
+  const { request } = event;
+  const cache = await caches.open(DATA_CACHE);
+  const cached = await cache.match(request, { ignoreSearch: true });
+
+  const headers = new Headers(request.headers);
+  const etag = cached?.headers.get('ETag');
+  const lastModified = cached?.headers.get('Last-Modified');
+  if (etag) headers.set('If-None-Match', etag);
+  else if (lastModified) headers.set('If-Modified-Since', lastModified);
+
+  let response: Response;
+  try {
+    response = await fetch(request.url, { headers, cache: 'no-store' });
+  } catch (error) {
+    if (cached) return cached;
+    throw error;
+  }
+
+  if (response.status === 304 && cached) return cached;
+  // Not awaited: the page reads its branch of the stream while the cache fills
+  if (response.ok) event.waitUntil(cache.put(request.url, response.clone()));
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Range requests (resumed downloads), HEAD checks and other origins go straight through
+  if (request.method !== 'GET' || request.headers.has('Range') || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstNavigation(request));
+  } else if (url.pathname.startsWith('/data/')) {
+    event.respondWith(revalidateDataset(event));
+  } else if (url.pathname.startsWith('/assets/') || url.pathname.startsWith('/textures/')) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -1,11 +1,57 @@
-import { defineConfig } from 'vite'
+import { defineConfig, transformWithEsbuild, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 import tailwindcss from '@tailwindcss/vite'
+import { createHash } from 'node:crypto'
+import { readFile, readdir } from 'node:fs/promises'
+import { join, relative, sep } from 'node:path'
+
+// Public files precached next to the bundle; the dataset is cached at runtime
+const PRECACHE_PUBLIC = ['textures', 'manifest.webmanifest', 'icon.svg']
+
+async function listPublicFiles(publicDir: string, entry: string): Promise<string[]> {
+  const path = join(publicDir, entry)
+  const entries = await readdir(path, { withFileTypes: true }).catch(() => null)
+  if (!entries) return [`/${entry}`]
+  const files = await Promise.all(entries.map(child => listPublicFiles(publicDir, relative(publicDir, join(path, child.name)))))
+  return files.flat()
+}
+
+// Compile sw/serviceWorker.ts into /sw.js with the build's precache list. The
+// cache version is a hash of that list, so every deploy installs a fresh shell.
+function serviceWorker(): Plugin {
+  let root = ''
+  let publicDir = ''
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    configResolved(config) {
+      root = config.root
+      publicDir = config.publicDir
+    },
+    async generateBundle(_, bundle) {
+      const publicFiles = (await Promise.all(PRECACHE_PUBLIC.map(entry => listPublicFiles(publicDir, entry)))).flat()
+      const bundleFiles = Object.keys(bundle).filter(file => !file.endsWith('.map')).map(file => `/${file}`)
+      const urls = [...new Set(['/', '/index.html', ...bundleFiles, ...publicFiles.map(file => file.split(sep).join('/'))])].sort()
+      const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12)
+
+      const source = await readFile(join(root, 'sw/serviceWorker.ts'), 'utf8')
+      const { code } = await transformWithEsbuild(source, 'serviceWorker.ts', {
+        minify: true,
+        define: {
+          __PRECACHE_URLS__: JSON.stringify(urls),
+          __CACHE_VERSION__: JSON.stringify(version),
+        },
+      })
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: code })
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     react(),
     tailwindcss(),
+    serviceWorker(),
   ],
 })